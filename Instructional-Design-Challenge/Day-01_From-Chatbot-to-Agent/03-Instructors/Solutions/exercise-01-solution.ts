@@ -7,6 +7,10 @@
  * INSTRUCTOR NOTE: This chatbot is intentionally limited. When students try to
  * "send emails" or "update leads," it will appear to comply but actually do nothing.
  * This is the "aha moment" we're building toward.
+ * 
+ * Unlike the later solutions it calls the Anthropic SDK directly rather than
+ * through starter-kit/llm-client.ts: it runs on Node, and the exercise is
+ * about what a live model makes up, which a scripted one can't show.
  */
 
 import Anthropic from "@anthropic-ai/sdk";
@@ -39,7 +43,7 @@ Be helpful and professional.`;
 async function chat(userMessage: string): Promise<string> {
   try {
     const response = await client.messages.create({
-      model: "claude-3-5-sonnet-20241022",
+      model: process.env.ANTHROPIC_MODEL || "claude-3-5-sonnet-20241022",
       max_tokens: 1024,
       system: SYSTEM_PROMPT,
       messages: [{ role: "user", content: userMessage }],
@@ -0,0 +1,85 @@
+/**
+ * Tests for exercise-02-solution.ts - the intent classification node.
+ *
+ *   deno test --allow-env --allow-net exercise-02-solution.test.ts
+ *
+ * The node runs against a scripted model, so these check what the node
+ * does with a reply, not how well a real model classifies. For that, run
+ * the solution against Claude with a message of your own.
+ */
+
+import { assertEquals, assertMatch, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createScriptedClient } from "../../../starter-kit/llm-client.ts";
+import type { ScriptedReply } from "../../../starter-kit/llm-client.ts";
+import { buildApp } from "./exercise-02-solution.ts";
+import type { AgentState } from "./exercise-02-solution.ts";
+
+// The model's reply to `message`
+function reply(message: string, text: string): ScriptedReply {
+  return { match: `User message: "${message}"`, text };
+}
+
+async function classify(message: string, script: ScriptedReply[]): Promise<AgentState> {
+  const app = buildApp({ llm: createScriptedClient(script) });
+  return await app.invoke({ userMessage: message, intent: null, response: null, error: null });
+}
+
+Deno.test("the model's classification becomes the intent", async () => {
+  const intent = { type: "update", target: "TechCorp", details: "mark as won", confidence: "high" };
+  
+  const result = await classify("Mark TechCorp as won", [
+    reply("Mark TechCorp as won", JSON.stringify(intent)),
+  ]);
+  
+  assertEquals(result.intent, intent);
+  assertEquals(result.error, null);
+});
+
+Deno.test("the prompt quotes the message and lists every category", async () => {
+  const model = createScriptedClient([reply("Find hot leads", `{"type": "lookup"}`)]);
+  
+  await buildApp({ llm: model }).invoke({ userMessage: "Find hot leads", intent: null, response: null, error: null });
+  
+  const prompt = model.calls[0].messages[0].content;
+  assertStringIncludes(prompt, `User message: "Find hot leads"`);
+  for (const type of ["lookup", "qualify", "followup", "update", "unknown"]) {
+    assertStringIncludes(prompt, `- "${type}"`);
+  }
+});
+
+Deno.test("JSON with explanation around it is still read", async () => {
+  const result = await classify("Qualify the TechCorp lead", [
+    reply("Qualify the TechCorp lead", `Sure! Here's the classification:\n{"type": "qualify", "target": "TechCorp"}\nLet me know if you need more.`),
+  ]);
+  
+  assertEquals(result.intent?.type, "qualify");
+  assertEquals(result.intent?.target, "TechCorp");
+});
+
+Deno.test("a type outside the five categories becomes unknown", async () => {
+  const result = await classify("Delete TechCorp", [
+    reply("Delete TechCorp", `{"type": "delete", "target": "TechCorp"}`),
+  ]);
+  
+  assertEquals(result.intent?.type, "unknown");
+  assertEquals(result.intent?.target, "TechCorp");
+});
+
+Deno.test("a reply without JSON is unknown with low confidence", async () => {
+  const result = await classify("asdfghjkl", [
+    reply("asdfghjkl", "I'm not sure what that means."),
+  ]);
+  
+  assertEquals(result.intent?.type, "unknown");
+  assertEquals(result.intent?.details, "Could not parse LLM response");
+  assertEquals(result.intent?.confidence, "low");
+  assertEquals(result.error, null);
+});
+
+Deno.test("a model failure is unknown and reported in state.error", async () => {
+  const result = await classify("Hello, how are you?", []);
+  
+  assertEquals(result.intent?.type, "unknown");
+  assertEquals(result.intent?.confidence, "low");
+  assertMatch(result.error!, /^Classification error: No scripted reply matches/);
+});
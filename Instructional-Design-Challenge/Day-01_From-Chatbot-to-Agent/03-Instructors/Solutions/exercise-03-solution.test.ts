@@ -0,0 +1,88 @@
+/**
+ * Tests for exercise-03-solution.ts - routing between nodes.
+ *
+ *   deno test --allow-env --allow-net exercise-03-solution.test.ts
+ *
+ * The classifier runs against a scripted model, so each test decides the
+ * intent and checks that the graph takes the right path from there.
+ */
+
+import { assertEquals, assertMatch } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createScriptedClient } from "../../../starter-kit/llm-client.ts";
+import { buildApp, routeByIntent } from "./exercise-03-solution.ts";
+import type { AgentState } from "./exercise-03-solution.ts";
+
+function initialState(userMessage: string): AgentState {
+  return { userMessage, intent: null, response: null, error: null };
+}
+
+// Run `message` through the graph with the model classifying it as `intent`
+async function run(message: string, intent: AgentState["intent"]): Promise<AgentState> {
+  const app = buildApp({
+    llm: createScriptedClient([{ match: `User message: "${message}"`, text: JSON.stringify(intent) }]),
+  });
+  return await app.invoke(initialState(message));
+}
+
+Deno.test("routeByIntent sends lookup and qualify to their own nodes, everything else to handle_other", () => {
+  const cases: [string, string][] = [
+    ["lookup", "handle_lookup"],
+    ["qualify", "handle_qualify"],
+    ["followup", "handle_other"],
+    ["update", "handle_other"],
+    ["unknown", "handle_other"],
+  ];
+  for (const [type, node] of cases) {
+    const state = { ...initialState(""), intent: { type } as AgentState["intent"] };
+    assertEquals(routeByIntent(state), node, type);
+  }
+  assertEquals(routeByIntent(initialState("")), "handle_other");
+});
+
+Deno.test("a lookup goes to handle_lookup", async () => {
+  const result = await run("What's TechCorp's status?", { type: "lookup", target: "TechCorp" });
+  
+  assertMatch(result.response!, /^🔍 Looking up TechCorp/);
+});
+
+Deno.test("a lookup without a target looks up all leads", async () => {
+  const result = await run("Show me everything", { type: "lookup" });
+  
+  assertMatch(result.response!, /^🔍 Looking up all leads/);
+});
+
+Deno.test("a qualify request goes to handle_qualify", async () => {
+  const result = await run("Qualify TechCorp", { type: "qualify", target: "TechCorp" });
+  
+  assertMatch(result.response!, /^📊 Analyzing TechCorp/);
+});
+
+Deno.test("a qualify request without a target asks which lead", async () => {
+  const result = await run("Qualify a lead", { type: "qualify" });
+  
+  assertEquals(result.response, "Which lead would you like me to qualify? Please specify a company name.");
+});
+
+Deno.test("follow-ups and updates explain they come tomorrow", async () => {
+  const followup = await run("Send email to Sophie", { type: "followup", target: "Sophie" });
+  assertMatch(followup.response!, /^📧 You want to follow up with Sophie/);
+  
+  const update = await run("Mark as won", { type: "update" });
+  assertMatch(update.response!, /^✏️ You want to update a lead/);
+});
+
+Deno.test("an unknown request gets the examples", async () => {
+  const result = await run("Hello!", { type: "unknown" });
+  
+  assertMatch(result.response!, /^🤔 I'm not sure what you're asking for/);
+});
+
+Deno.test("a failed classification still ends at handle_other", async () => {
+  const app = buildApp({ llm: createScriptedClient([]) });
+  
+  const result = await app.invoke(initialState("Show me all leads"));
+  
+  assertEquals(result.intent?.type, "unknown");
+  assertMatch(result.error!, /^Classification error/);
+  assertMatch(result.response!, /not sure what you're asking for/);
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for exercise-04-solution.ts - querying leads from Supabase.
+ *
+ *   deno test --allow-env --allow-net exercise-04-solution.test.ts
+ *
+ * Each test builds the graph with a scripted model and the in-memory
+ * repositories from starter-kit/repositories.ts, which start with the five
+ * sample leads from starter-kit/sample-data.ts. No API keys or database are
+ * needed.
+ */
+
+import { assertEquals, assertMatch, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createScriptedClient } from "../../../starter-kit/llm-client.ts";
+import { createMemoryCrmRepositories } from "../../../starter-kit/repositories.ts";
+import * as agent from "./exercise-04-solution.ts";
+import type { AgentState } from "./exercise-04-solution.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+// Run `message` against fresh sample data, with the model classifying it as `intent`
+async function run(message: string, intent: AgentState["intent"]): Promise<AgentState> {
+  const app = agent.buildApp({
+    db: createMemoryCrmRepositories(),
+    llm: createScriptedClient([{ match: `User message: "${message}"`, text: JSON.stringify(intent) }]),
+  });
+  return await app.invoke({ userMessage: message, intent: null, leads: [], response: null, error: null });
+}
+
+const companies = (state: AgentState) => state.leads.map((l) => l.company_name);
+
+// ============================================
+// Routing
+// ============================================
+
+Deno.test("routeByIntent sends lookup and qualify to their own nodes, everything else to handle_other", () => {
+  const route = (type: string) =>
+    agent.routeByIntent({ userMessage: "", intent: { type } as AgentState["intent"], leads: [], response: null, error: null });
+  
+  assertEquals(route("lookup"), "handle_lookup");
+  assertEquals(route("qualify"), "handle_qualify");
+  assertEquals(route("followup"), "handle_other");
+  assertEquals(route("update"), "handle_other");
+  assertEquals(route("unknown"), "handle_other");
+});
+
+// ============================================
+// Lookups
+// ============================================
+
+Deno.test("all leads come back best score first", async () => {
+  const result = await run("Show me all my leads", { type: "lookup", target: "all" });
+  
+  assertEquals(result.leads.map((l) => l.score), [92, 85, 78, 40, 25]);
+  assertMatch(result.response!, /^Found 5 all leads:/);
+  assertEquals(result.error, null);
+});
+
+Deno.test("hot leads are those scoring over 80", async () => {
+  const result = await run("Show me hot leads", { type: "lookup", target: "hot" });
+  
+  assertEquals(companies(result), ["GlobalRetail Inc", "TechCorp Solutions"]);
+  assertMatch(result.response!, /^Found 2 hot leads \(score > 80\):/);
+});
+
+Deno.test("new leads filter on status", async () => {
+  const result = await run("Show me new leads", { type: "lookup", target: "new leads" });
+  
+  assertEquals(companies(result), ["StartupXYZ"]);
+});
+
+Deno.test("any other target searches company names, ignoring case", async () => {
+  const result = await run("What's the status of TechCorp?", { type: "lookup", target: "TechCorp" });
+  
+  assertEquals(companies(result), ["TechCorp Solutions"]);
+  assertStringIncludes(result.response!, `Found 1 leads matching "techcorp":`);
+  assertStringIncludes(result.response!, "Score: 85 | Status: Qualified | Value: $45,000");
+  assertStringIncludes(result.response!, "📧 sophie@techcorp.io");
+});
+
+Deno.test("a company that doesn't exist gets a hint instead of an empty list", async () => {
+  const result = await run("Find FakeCompanyThatDoesntExist", { type: "lookup", target: "FakeCompanyThatDoesntExist" });
+  
+  assertEquals(result.leads, []);
+  assertMatch(result.response!, /^No leads matching "fakecompanythatdoesntexist" found\.\n\nTry a different search term/);
+});
+
+Deno.test("a database error is reported without showing leads", async () => {
+  const db = createMemoryCrmRepositories();
+  // What the Supabase repositories throw when RLS turns the query down
+  db.leads.list = () => Promise.reject({ code: "42501", message: "permission denied for table leads" });
+  const app = agent.buildApp({
+    db,
+    llm: createScriptedClient([{ match: "Show me all my leads", text: `{"type": "lookup", "target": "all"}` }]),
+  });
+  
+  const result = await app.invoke({ userMessage: "Show me all my leads", intent: null, leads: [], response: null, error: null });
+  
+  assertEquals(result.leads, []);
+  assertEquals(result.error, "Database error: permission denied for table leads");
+  assertEquals(result.response, "Sorry, I couldn't fetch the leads. Please try again.");
+});
+
+// ============================================
+// Not yet implemented
+// ============================================
+
+Deno.test("qualify and follow-up requests explain what's coming", async () => {
+  const qualify = await run("Qualify TechCorp", { type: "qualify", target: "TechCorp" });
+  assertMatch(qualify.response!, /^📊 To qualify TechCorp/);
+  assertEquals(qualify.leads, []);
+  
+  const followup = await run("Send email to Sophie", { type: "followup", target: "Sophie" });
+  assertMatch(followup.response!, /^📧 You want to follow up with Sophie/);
+});
+
+Deno.test("an unknown request gets the examples", async () => {
+  const result = await run("Hello!", { type: "unknown" });
+  
+  assertMatch(result.response!, /^🤔 I'm not sure what you're asking for/);
+});
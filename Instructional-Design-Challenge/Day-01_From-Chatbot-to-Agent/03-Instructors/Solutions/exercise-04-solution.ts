@@ -9,29 +9,17 @@
  * Contrast this with Exercise 1's chatbot that could only hallucinate.
  */
 
-import { StateGraph, END } from "@langchain/langgraph";
+import { StateGraph, END } from "https://esm.sh/@langchain/langgraph@0.0.20";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import Anthropic from "@anthropic-ai/sdk";
+import { createLlmClient } from "../../../starter-kit/llm-client.ts";
+import type { LlmClient } from "../../../starter-kit/llm-client.ts";
+import { createSupabaseCrmRepositories } from "../../../starter-kit/repositories.ts";
+import type { CrmRepositories, Lead, LeadFilter } from "../../../starter-kit/repositories.ts";
 
 // ============================================
 // Type Definitions
 // ============================================
 
-interface Lead {
-  id: string;
-  company_name: string;
-  contact_name: string;
-  contact_email: string;
-  status: string;
-  score: number;
-  source: string | null;
-  estimated_value: number | null;
-  notes: string | null;
-  created_at: string;
-  updated_at: string;
-  last_contacted_at: string | null;
-}
-
 interface AgentIntent {
   type: "lookup" | "qualify" | "followup" | "update" | "unknown";
   target?: string;
@@ -47,16 +35,24 @@ interface AgentState {
 }
 
 // ============================================
-// Client Setup
+// Dependencies
 // ============================================
 
-const anthropic = new Anthropic({
-  apiKey: Deno.env.get("ANTHROPIC_API_KEY"),
-});
+// What the nodes work with, passed in when the graph is built: Supabase and
+// the model from LLM_PROVIDER when you run this file, the in-memory sample
+// data and a scripted model in the tests
+interface AgentDeps {
+  db: CrmRepositories;
+  llm: LlmClient;
+}
 
-const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-const supabase = createClient(supabaseUrl, supabaseKey);
+// Leads are read through starter-kit/repositories.ts rather than with
+// supabase.from() here, so the same nodes run against the sample data
+function connectSupabase(): CrmRepositories {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createSupabaseCrmRepositories(createClient(supabaseUrl, supabaseKey));
+}
 
 // ============================================
 // Nodes
@@ -65,7 +61,7 @@ const supabase = createClient(supabaseUrl, supabaseKey);
 /**
  * Node 1: Classify user intent
  */
-async function understandRequest(state: AgentState): Promise<Partial<AgentState>> {
+async function understandRequest(state: AgentState, { llm }: AgentDeps): Promise<Partial<AgentState>> {
   const userMessage = state.userMessage;
   
   const prompt = `You are a CRM assistant that classifies user requests.
@@ -85,13 +81,11 @@ Respond with ONLY JSON:
 {"type": "lookup|qualify|followup|update|unknown", "target": "company name or null"}`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-5-sonnet-20241022",
-      max_tokens: 256,
+    const { text } = await llm.complete({
+      maxTokens: 256,
       messages: [{ role: "user", content: prompt }],
     });
     
-    const text = response.content[0].type === "text" ? response.content[0].text : "{}";
     const jsonMatch = text.match(/\{[\s\S]*\}/);
     const intent = jsonMatch ? JSON.parse(jsonMatch[0]) : { type: "unknown" };
     
@@ -108,14 +102,14 @@ Respond with ONLY JSON:
  * Node 2: Query leads from Supabase
  * 
  * This is the main new functionality for Exercise 4.
- * We build different queries based on what the user asked for.
+ * We build a different filter based on what the user asked for.
  */
-async function handleLookup(state: AgentState): Promise<Partial<AgentState>> {
+async function handleLookup(state: AgentState, { db }: AgentDeps): Promise<Partial<AgentState>> {
   const target = state.intent?.target?.toLowerCase().trim() || "";
   
   try {
-    // Build query based on what user asked for
-    let query = supabase.from("leads").select("*");
+    // Build filter based on what user asked for
+    let filter: LeadFilter = {};
     let queryDescription = "";
     
     if (target === "" || target === "all" || target === "my leads") {
@@ -123,46 +117,34 @@ async function handleLookup(state: AgentState): Promise<Partial<AgentState>> {
       queryDescription = "all leads";
       
     } else if (target === "hot" || target === "hot leads" || target === "high value") {
-      // "Show me hot leads" - filter by high score
-      query = query.gt("score", 80);
+      // "Show me hot leads" - filter by high score (scores are whole numbers)
+      filter = { score_min: 81 };
       queryDescription = "hot leads (score > 80)";
       
     } else if (target === "new" || target === "new leads") {
       // "Show me new leads" - filter by status
-      query = query.eq("status", "new");
+      filter = { status_in: ["new"] };
       queryDescription = "new leads";
       
     } else if (target === "qualified") {
-      query = query.eq("status", "qualified");
+      filter = { status_in: ["qualified"] };
       queryDescription = "qualified leads";
       
     } else if (target === "proposal" || target === "in proposal") {
-      query = query.eq("status", "proposal");
+      filter = { status_in: ["proposal"] };
       queryDescription = "leads in proposal stage";
       
     } else {
       // Assume it's a company name search
-      query = query.ilike("company_name", `%${target}%`);
+      filter = { search: target };
       queryDescription = `leads matching "${target}"`;
     }
     
-    // Always sort by score (highest first)
-    query = query.order("score", { ascending: false });
-    
-    // Execute the query
-    const { data, error } = await query;
-    
-    if (error) {
-      console.error("Supabase error:", error);
-      return {
-        leads: [],
-        error: `Database error: ${error.message}`,
-        response: "Sorry, I couldn't fetch the leads. Please try again.",
-      };
-    }
+    // Execute the query - leads come back sorted by score (highest first)
+    const data = await db.leads.list(null, filter);
     
     // Handle empty results
-    if (!data || data.length === 0) {
+    if (data.length === 0) {
       return {
         leads: [],
         response: `No ${queryDescription} found.${
@@ -179,12 +161,12 @@ async function handleLookup(state: AgentState): Promise<Partial<AgentState>> {
       response: formatLeadsResponse(data, queryDescription),
     };
     
-  } catch (e) {
-    console.error("Unexpected error in handleLookup:", e);
+  } catch (error) {
+    console.error("Supabase error:", error);
     return {
       leads: [],
-      error: `Unexpected error: ${e instanceof Error ? e.message : "unknown"}`,
-      response: "Something went wrong while fetching leads. Please try again.",
+      error: `Database error: ${(error as { message?: string }).message ?? String(error)}`,
+      response: "Sorry, I couldn't fetch the leads. Please try again.",
     };
   }
 }
@@ -303,86 +285,50 @@ function routeByIntent(state: AgentState): string {
 // Graph
 // ============================================
 
-const workflow = new StateGraph<AgentState>({
-  channels: {
-    userMessage: { value: (a: string, b: string) => b ?? a },
-    intent: { value: (a: AgentIntent | null, b: AgentIntent | null) => b ?? a },
-    leads: { value: (a: Lead[], b: Lead[]) => b ?? a },
-    response: { value: (a: string | null, b: string | null) => b ?? a },
-    error: { value: (a: string | null, b: string | null) => b ?? a },
-  },
-});
-
-workflow.addNode("understand_request", understandRequest);
-workflow.addNode("handle_lookup", handleLookup);
-workflow.addNode("handle_qualify", handleQualify);
-workflow.addNode("handle_other", handleOther);
-
-workflow.setEntryPoint("understand_request");
-
-workflow.addConditionalEdges(
-  "understand_request",
-  routeByIntent,
-  {
-    handle_lookup: "handle_lookup",
-    handle_qualify: "handle_qualify",
-    handle_other: "handle_other",
-  }
-);
-
-workflow.addEdge("handle_lookup", END);
-workflow.addEdge("handle_qualify", END);
-workflow.addEdge("handle_other", END);
-
-const app = workflow.compile();
-
-// ============================================
-// Testing
-// ============================================
-
-async function runTests() {
-  const testCases = [
-    "Show me all my leads",
-    "Show me hot leads",
-    "What's the status of TechCorp?",
-    "Find GlobalRetail",
-    "Show me new leads",
-    "Find FakeCompanyThatDoesntExist",
-    "Qualify TechCorp",
-    "Send email to Sophie",
-    "Hello!",
-  ];
+function buildApp(deps: AgentDeps) {
+  const workflow = new StateGraph<AgentState>({
+    channels: {
+      userMessage: { value: (a: string, b: string) => b ?? a },
+      intent: { value: (a: AgentIntent | null, b: AgentIntent | null) => b ?? a },
+      leads: { value: (a: Lead[], b: Lead[]) => b ?? a },
+      response: { value: (a: string | null, b: string | null) => b ?? a },
+      error: { value: (a: string | null, b: string | null) => b ?? a },
+    },
+  });
   
-  console.log("=".repeat(70));
-  console.log("FULL AGENT TEST WITH REAL DATABASE");
-  console.log("=".repeat(70));
+  workflow.addNode("understand_request", (state: AgentState) => understandRequest(state, deps));
+  workflow.addNode("handle_lookup", (state: AgentState) => handleLookup(state, deps));
+  workflow.addNode("handle_qualify", handleQualify);
+  workflow.addNode("handle_other", handleOther);
   
-  for (const message of testCases) {
-    console.log(`\n${"─".repeat(70)}`);
-    console.log(`USER: ${message}`);
-    console.log("─".repeat(70));
-    
-    const result = await app.invoke({
-      userMessage: message,
-      intent: null,
-      leads: [],
-      response: null,
-      error: null,
-    });
-    
-    console.log(`INTENT: ${result.intent?.type}${result.intent?.target ? ` (target: ${result.intent.target})` : ""}`);
-    console.log(`LEADS RETURNED: ${result.leads?.length || 0}`);
-    if (result.error) {
-      console.log(`ERROR: ${result.error}`);
+  workflow.setEntryPoint("understand_request");
+  
+  workflow.addConditionalEdges(
+    "understand_request",
+    routeByIntent,
+    {
+      handle_lookup: "handle_lookup",
+      handle_qualify: "handle_qualify",
+      handle_other: "handle_other",
     }
-    console.log(`\nRESPONSE:\n${result.response}`);
-  }
+  );
+  
+  workflow.addEdge("handle_lookup", END);
+  workflow.addEdge("handle_qualify", END);
+  workflow.addEdge("handle_other", END);
+  
+  return workflow.compile();
 }
 
+// ============================================
+// Main
+// ============================================
+
 async function main() {
-  if (process.argv[2]) {
+  if (Deno.args[0]) {
+    const app = buildApp({ db: connectSupabase(), llm: createLlmClient() });
     const result = await app.invoke({
-      userMessage: process.argv[2],
+      userMessage: Deno.args[0],
       intent: null,
       leads: [],
       response: null,
@@ -393,8 +339,12 @@ async function main() {
       console.error("\nError:", result.error);
     }
   } else {
-    await runTests();
+    console.log(`Usage: deno run --allow-env --allow-net exercise-04-solution.ts "<message>"`);
+    console.log("The tests are in exercise-04-solution.test.ts");
   }
 }
 
-main().catch(console.error);
+if (import.meta.main) main().catch(console.error);
+
+export { buildApp, connectSupabase, routeByIntent };
+export type { AgentState };
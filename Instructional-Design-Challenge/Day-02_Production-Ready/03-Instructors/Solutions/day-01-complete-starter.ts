@@ -10,9 +10,9 @@
  * Day-02 will add: approval flows, error handling, deployment
  */
 
-import { ChatAnthropic } from "@langchain/anthropic";
 import { StateGraph, END } from "@langchain/langgraph";
 import { createClient } from "@supabase/supabase-js";
+import { createLlmClient } from "../../../starter-kit/llm-client.ts";
 
 // ============================================================================
 // Configuration
@@ -23,11 +23,8 @@ const supabase = createClient(
   Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
 );
 
-const llm = new ChatAnthropic({
-  modelName: "claude-3-5-sonnet-20241022",
-  temperature: 0,
-  anthropicApiKey: Deno.env.get("ANTHROPIC_API_KEY"),
-});
+// Model from LLM_PROVIDER / ANTHROPIC_MODEL, see starter-kit/llm-client.ts
+const llm = createLlmClient();
 
 // ============================================================================
 // Types
@@ -95,8 +92,12 @@ Examples:
 - "Send follow-up to GlobalRetail" → {"type": "followup", "target": "GlobalRetail"}`;
 
   try {
-    const response = await llm.invoke([{ role: "user", content: prompt }]);
-    const intent = JSON.parse(response.content as string);
+    const response = await llm.complete({
+      maxTokens: 256,
+      temperature: 0,
+      messages: [{ role: "user", content: prompt }],
+    });
+    const intent = JSON.parse(response.text);
     
     return { intent };
   } catch (error) {
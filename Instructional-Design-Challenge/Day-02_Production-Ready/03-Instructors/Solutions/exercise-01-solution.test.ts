@@ -0,0 +1,85 @@
+/**
+ * Tests for exercise-01-solution.ts - the infinite loop regression.
+ *
+ *   deno test --allow-env --allow-net exercise-01-solution.test.ts
+ *
+ * The buggy agent never stopped on a short message. Every run here uses a
+ * recursion limit well above what the fixed graph needs, so if a bug comes
+ * back the test fails with a recursion error instead of hanging.
+ */
+
+import { assert, assertEquals, assertMatch } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { app, routeAnalysis } from "./exercise-01-solution.ts";
+import type { AgentState } from "./exercise-01-solution.ts";
+
+const MAX_ATTEMPTS = 3;
+
+function initialState(userMessage: string): AgentState {
+  return {
+    userMessage,
+    attempts: 0,
+    maxAttempts: MAX_ATTEMPTS,
+    response: null,
+    needsMoreInfo: false,
+    askedForClarification: false,
+    error: null,
+  };
+}
+
+async function run(state: AgentState): Promise<AgentState> {
+  return await app.invoke(state, { recursionLimit: 10 });
+}
+
+Deno.test("a short message asks for clarification once, then answers", async () => {
+  const result = await run(initialState("Hi"));
+  
+  assert(result.askedForClarification);
+  assertEquals(result.needsMoreInfo, false);
+  assertEquals(result.attempts, 2);
+  assertMatch(result.response!, /I'll do my best with what you told me: "Hi"/);
+  assertEquals(result.error, null);
+});
+
+Deno.test("an empty message ends the same way", async () => {
+  const result = await run(initialState(""));
+  
+  assert(result.askedForClarification);
+  assert(result.attempts <= MAX_ATTEMPTS);
+  assert(result.response);
+});
+
+Deno.test("one character short of the threshold still asks", async () => {
+  const message = "Show me all my lead";
+  assertEquals(message.length, 19);
+  
+  const result = await run(initialState(message));
+  
+  assert(result.askedForClarification);
+  assert(result.attempts <= MAX_ATTEMPTS);
+});
+
+Deno.test("a long enough message is answered without asking", async () => {
+  const result = await run(initialState("Show me all the leads in my database please"));
+  
+  assertEquals(result.askedForClarification, false);
+  assertEquals(result.attempts, 1);
+  assertMatch(result.response!, /^Analyzed successfully/);
+});
+
+Deno.test("a run that starts out of attempts gives up straight away", async () => {
+  const result = await run({ ...initialState("Hi"), attempts: MAX_ATTEMPTS });
+  
+  assertEquals(result.error, "Max attempts exceeded");
+  assertEquals(result.askedForClarification, false);
+  assertEquals(result.needsMoreInfo, false);
+});
+
+Deno.test("routeAnalysis never sends a run back to clarification twice", () => {
+  const state = initialState("Hi");
+  
+  assertEquals(routeAnalysis({ ...state, needsMoreInfo: true }), "request_clarification");
+  assertEquals(routeAnalysis({ ...state, needsMoreInfo: true, askedForClarification: true }), "end");
+  assertEquals(routeAnalysis({ ...state, needsMoreInfo: true, attempts: MAX_ATTEMPTS }), "end");
+  assertEquals(routeAnalysis({ ...state, needsMoreInfo: true, error: "boom" }), "end");
+  assertEquals(routeAnalysis({ ...state, response: "done" }), "end");
+});
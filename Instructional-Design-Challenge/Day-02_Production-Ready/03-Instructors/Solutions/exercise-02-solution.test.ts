@@ -0,0 +1,182 @@
+/**
+ * Tests for exercise-02-solution.ts - the approval gate.
+ *
+ *   deno test --allow-env --allow-net exercise-02-solution.test.ts
+ *
+ * Each test builds the graph with a scripted model and the in-memory
+ * repositories from starter-kit/repositories.ts (the sample leads from
+ * starter-kit/sample-data.ts), so no API keys or database are needed.
+ * AUTO_APPROVE decides what the human_review node does, as it does when you
+ * run the agent by hand.
+ */
+
+import { assert, assertEquals, assertMatch } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createScriptedClient } from "../../../starter-kit/llm-client.ts";
+import { createMemoryCrmRepositories } from "../../../starter-kit/repositories.ts";
+import type { MemoryCrmRepositories } from "../../../starter-kit/repositories.ts";
+import * as agent from "./exercise-02-solution.ts";
+import type { AgentState } from "./exercise-02-solution.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+function initialState(userMessage: string): AgentState {
+  return {
+    userMessage,
+    intent: null,
+    leads: [],
+    selectedLead: null,
+    pendingAction: null,
+    approvalStatus: null,
+    approvalReason: null,
+    response: null,
+    error: null,
+  };
+}
+
+/**
+ * Runs `message` against fresh sample data, with a model that classifies
+ * it as `intent`. Returns the final state and the data, to look at after.
+ */
+async function run(
+  message: string,
+  intent: AgentState["intent"],
+  autoApprove?: "true" | "false"
+): Promise<{ result: AgentState; db: MemoryCrmRepositories }> {
+  const db = createMemoryCrmRepositories();
+  const app = agent.buildApp({
+    db,
+    llm: createScriptedClient([{ match: `Message: "${message}"`, text: JSON.stringify(intent) }]),
+  });
+  
+  if (autoApprove) Deno.env.set("AUTO_APPROVE", autoApprove);
+  else Deno.env.delete("AUTO_APPROVE");
+  
+  const result = await app.invoke(initialState(message), { recursionLimit: 10 });
+  return { result, db };
+}
+
+function leadNamed(db: MemoryCrmRepositories, company: string) {
+  const lead = db.leadRows.find((l) => l.company_name === company);
+  assert(lead, `no sample lead "${company}"`);
+  return lead;
+}
+
+function interactionsFor(db: MemoryCrmRepositories, company: string) {
+  const lead = leadNamed(db, company);
+  return db.interactionRows.filter((i) => i.lead_id === lead.id);
+}
+
+// ============================================
+// Approval rules
+// ============================================
+
+Deno.test("needsApproval: every email, and updates to leads scoring over 80", () => {
+  const lead = (score: number) => ({ score }) as NonNullable<AgentState["selectedLead"]>;
+  
+  assert(agent.needsApproval("send_email", null));
+  assert(agent.needsApproval("send_email", lead(10)));
+  assert(agent.needsApproval("update_lead", lead(81)));
+  assertEquals(agent.needsApproval("update_lead", lead(80)), false);
+  assertEquals(agent.needsApproval("update_lead", null), false);
+});
+
+Deno.test("parseChanges reads the new status from the message", () => {
+  assertEquals(agent.parseChanges("Mark TechCorp as won"), { status: "won" });
+  assertEquals(agent.parseChanges("We lost LocalCafe to a competitor"), { status: "lost" });
+  assertEquals(agent.parseChanges("StartupXYZ is qualified now"), { status: "qualified" });
+  assertEquals(agent.parseChanges("Tell me about TechCorp"), {});
+});
+
+// ============================================
+// Routing
+// ============================================
+
+Deno.test("routeByIntent sends each intent to its handler", () => {
+  const route = (type: string) => agent.routeByIntent({ ...initialState(""), intent: { type } });
+  
+  assertEquals(route("lookup"), "handle_lookup");
+  assertEquals(route("update"), "handle_update");
+  assertEquals(route("followup"), "handle_other");
+  assertEquals(agent.routeByIntent(initialState("")), "handle_other");
+});
+
+Deno.test("routeAfterUpdate only goes to review when an approval is pending", () => {
+  assertEquals(agent.routeAfterUpdate({ ...initialState(""), approvalStatus: "pending" }), "human_review");
+  assertEquals(agent.routeAfterUpdate(initialState("")), "end");
+});
+
+Deno.test("routeAfterReview executes approvals, handles rejections and otherwise stops", () => {
+  assertEquals(agent.routeAfterReview({ ...initialState(""), approvalStatus: "approved" }), "execute_approved_update");
+  assertEquals(agent.routeAfterReview({ ...initialState(""), approvalStatus: "rejected" }), "handle_rejection");
+  assertEquals(agent.routeAfterReview({ ...initialState(""), approvalStatus: "pending" }), "end");
+});
+
+// ============================================
+// The graph
+// ============================================
+
+Deno.test("an update to a low-scoring lead is applied without approval", async () => {
+  const { result, db } = await run("Mark LocalCafe as lost", { type: "update", target: "LocalCafe" });
+  
+  assertEquals(result.approvalStatus, null);
+  assertMatch(result.response!, /Updated \*\*LocalCafe\*\*/);
+  assertEquals(leadNamed(db, "LocalCafe").status, "lost");
+  
+  const [logged] = interactionsFor(db, "LocalCafe");
+  assertEquals(logged.interaction_type, "status_change");
+  assertEquals(logged.required_approval, false);
+  assertEquals(logged.metadata, { changes: { status: "lost" }, previous_status: "contacted" });
+});
+
+Deno.test("an approved update to a high-scoring lead is applied and logged as approved", async () => {
+  const { result, db } = await run("Mark TechCorp as won", { type: "update", target: "TechCorp" }, "true");
+  
+  assertMatch(result.response!, /Updated \*\*TechCorp Solutions\*\*/);
+  assertEquals(result.pendingAction, null);
+  assertEquals(leadNamed(db, "TechCorp Solutions").status, "won");
+  
+  const logged = interactionsFor(db, "TechCorp Solutions").at(-1)!;
+  assertEquals(logged.interaction_type, "status_change");
+  assertEquals(logged.required_approval, true);
+  assertEquals(logged.approved, true);
+  assertEquals(logged.approved_by, "human");
+});
+
+Deno.test("a rejected update changes nothing and logs the rejection", async () => {
+  const { result, db } = await run("Mark GlobalRetail as lost", { type: "update", target: "GlobalRetail" }, "false");
+  
+  assertMatch(result.response!, /Update rejected: Auto-rejected for testing/);
+  assertEquals(result.pendingAction, null);
+  assertEquals(leadNamed(db, "GlobalRetail Inc").status, "proposal");
+  
+  const [logged] = interactionsFor(db, "GlobalRetail Inc");
+  assertEquals(logged.interaction_type, "agent_action");
+  assertEquals(logged.approved, false);
+});
+
+Deno.test("without a decision the update waits at human_review", async () => {
+  const { result, db } = await run("Mark GlobalRetail as won", { type: "update", target: "GlobalRetail" });
+  
+  assertEquals(result.approvalStatus, "pending");
+  assertEquals(result.pendingAction?.changes, { status: "won" });
+  assertMatch(result.response!, /Approval Required[\s\S]*Waiting for approval/);
+  assertEquals(leadNamed(db, "GlobalRetail Inc").status, "proposal");
+  assertEquals(interactionsFor(db, "GlobalRetail Inc"), []);
+});
+
+Deno.test("an update for a lead that doesn't exist is reported, not applied", async () => {
+  const { result, db } = await run("Mark AcmeCorp as won", { type: "update", target: "AcmeCorp" }, "true");
+  
+  assertEquals(result.error, "Lead not found");
+  assertMatch(result.response!, /couldn't find a lead matching "AcmeCorp"/);
+  assertEquals(db.interactionRows.length, 2);
+});
+
+Deno.test("a lookup for hot leads lists those scoring over 80, best first", async () => {
+  const { result } = await run("Show me hot leads", { type: "lookup", target: "hot" });
+  
+  assertEquals(result.leads.map((l) => l.company_name), ["GlobalRetail Inc", "TechCorp Solutions"]);
+  assertMatch(result.response!, /^Found 2 lead\(s\)/);
+});
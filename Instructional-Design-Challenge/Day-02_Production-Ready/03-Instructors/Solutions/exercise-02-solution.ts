@@ -10,25 +10,16 @@
  * 4. Handling both approval and rejection gracefully
  */
 
-import { StateGraph, END } from "@langchain/langgraph";
+import { StateGraph, END } from "https://esm.sh/@langchain/langgraph@0.0.20";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import Anthropic from "@anthropic-ai/sdk";
+import type { LlmClient } from "../../../starter-kit/llm-client.ts";
+import { createSupabaseCrmRepositories } from "../../../starter-kit/repositories.ts";
+import type { CrmRepositories, Lead, LeadFilter } from "../../../starter-kit/repositories.ts";
 
 // ============================================
 // Type Definitions
 // ============================================
 
-interface Lead {
-  id: string;
-  company_name: string;
-  contact_name: string;
-  contact_email: string;
-  status: string;
-  score: number;
-  estimated_value: number | null;
-  notes: string | null;
-}
-
 interface PendingAction {
   type: "update_lead" | "send_email";
   leadId: string;
@@ -51,17 +42,30 @@ interface AgentState {
 }
 
 // ============================================
-// Clients
+// Dependencies
 // ============================================
 
-const supabase = createClient(
-  Deno.env.get("SUPABASE_URL")!,
-  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-);
+// What the nodes work with, passed in when the graph is built, so each test
+// can build its own app around the in-memory sample data and a scripted model
+interface AgentDeps {
+  db: CrmRepositories;
+  llm: LlmClient;
+}
 
-const anthropic = new Anthropic({
-  apiKey: Deno.env.get("ANTHROPIC_API_KEY"),
-});
+// Leads and interactions in your Supabase project, to build the app with
+// along with createLlmClient() from starter-kit/llm-client.ts
+function connectSupabase(): CrmRepositories {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  return createSupabaseCrmRepositories(supabase);
+}
+
+// Supabase errors are plain objects with a message, not Error instances
+function errorMessage(error: unknown): string {
+  return (error as { message?: string } | null)?.message ?? String(error);
+}
 
 // ============================================
 // Approval Logic
@@ -98,10 +102,9 @@ function needsApproval(actionType: string, lead: Lead | null): boolean {
 /**
  * Classify user intent
  */
-async function understandRequest(state: AgentState): Promise<Partial<AgentState>> {
-  const response = await anthropic.messages.create({
-    model: "claude-3-5-sonnet-20241022",
-    max_tokens: 256,
+async function understandRequest(state: AgentState, { llm }: AgentDeps): Promise<Partial<AgentState>> {
+  const { text } = await llm.complete({
+    maxTokens: 256,
     messages: [{
       role: "user",
       content: `Classify this CRM request into: lookup, update, followup, or unknown.
@@ -113,7 +116,6 @@ JSON only: {"type": "...", "target": "company name or null"}`
     }],
   });
   
-  const text = response.content[0].type === "text" ? response.content[0].text : "{}";
   const jsonMatch = text.match(/\{[\s\S]*\}/);
   const intent = jsonMatch ? JSON.parse(jsonMatch[0]) : { type: "unknown" };
   
@@ -123,7 +125,7 @@ JSON only: {"type": "...", "target": "company name or null"}`
 /**
  * Handle update requests - may require approval
  */
-async function handleUpdate(state: AgentState): Promise<Partial<AgentState>> {
+async function handleUpdate(state: AgentState, deps: AgentDeps): Promise<Partial<AgentState>> {
   const target = state.intent?.target;
   
   if (!target) {
@@ -133,14 +135,19 @@ async function handleUpdate(state: AgentState): Promise<Partial<AgentState>> {
   }
   
   // Find the lead
-  const { data: leads, error } = await supabase
-    .from("leads")
-    .select("*")
-    .ilike("company_name", `%${target}%`);
+  let leads: Lead[];
+  try {
+    leads = await deps.db.leads.list(null, { search: target });
+  } catch (error) {
+    return {
+      error: errorMessage(error),
+      response: `I couldn't find a lead matching "${target}".`,
+    };
+  }
   
-  if (error || !leads?.length) {
+  if (!leads.length) {
     return {
-      error: error?.message || "Lead not found",
+      error: "Lead not found",
       response: `I couldn't find a lead matching "${target}".`,
     };
   }
@@ -174,7 +181,7 @@ async function handleUpdate(state: AgentState): Promise<Partial<AgentState>> {
   }
   
   // No approval needed - execute directly
-  return await executeUpdate(lead, changes, state);
+  return await executeUpdate(lead, changes, state, deps);
 }
 
 /**
@@ -228,24 +235,24 @@ This is a high-value lead, so I need your approval before making changes.
 async function executeUpdate(
   lead: Lead,
   changes: Partial<Lead>,
-  state: AgentState
+  state: AgentState,
+  { db }: AgentDeps
 ): Promise<Partial<AgentState>> {
-  const { data, error } = await supabase
-    .from("leads")
-    .update(changes)
-    .eq("id", lead.id)
-    .select()
-    .single();
-  
-  if (error) {
+  let updated: Lead | null;
+  try {
+    await db.leads.update(null, lead.id, changes);
+    updated = await db.leads.get(null, lead.id);
+    if (!updated) throw new Error("Lead not found");
+  } catch (error) {
     return {
-      error: error.message,
-      response: `Failed to update ${lead.company_name}: ${error.message}`,
+      error: errorMessage(error),
+      response: `Failed to update ${lead.company_name}: ${errorMessage(error)}`,
     };
   }
   
   // Log the interaction
-  await supabase.from("interactions").insert({
+  await db.interactions.add({
+    org_id: null,
     lead_id: lead.id,
     interaction_type: "status_change",
     description: `Updated: ${JSON.stringify(changes)}`,
@@ -257,7 +264,7 @@ async function executeUpdate(
   });
   
   return {
-    response: `✅ Updated **${lead.company_name}**!\n\nNew status: ${data.status}`,
+    response: `✅ Updated **${lead.company_name}**!\n\nNew status: ${updated.status}`,
     pendingAction: null,
     approvalStatus: null,
   };
@@ -301,7 +308,7 @@ async function humanReview(state: AgentState): Promise<Partial<AgentState>> {
 /**
  * Execute approved update
  */
-async function executeApprovedUpdate(state: AgentState): Promise<Partial<AgentState>> {
+async function executeApprovedUpdate(state: AgentState, deps: AgentDeps): Promise<Partial<AgentState>> {
   const pending = state.pendingAction;
   
   if (!pending || pending.type !== "update_lead" || !pending.changes) {
@@ -313,20 +320,22 @@ async function executeApprovedUpdate(state: AgentState): Promise<Partial<AgentSt
   return await executeUpdate(
     { ...lead, id: pending.leadId, company_name: pending.leadName } as Lead,
     pending.changes,
-    state
+    state,
+    deps
   );
 }
 
 /**
  * Handle rejection
  */
-async function handleRejection(state: AgentState): Promise<Partial<AgentState>> {
+async function handleRejection(state: AgentState, { db }: AgentDeps): Promise<Partial<AgentState>> {
   const pending = state.pendingAction;
   const reason = state.approvalReason;
   
   // Log the rejection
   if (pending) {
-    await supabase.from("interactions").insert({
+    await db.interactions.add({
+      org_id: null,
       lead_id: pending.leadId,
       interaction_type: "agent_action",
       description: `Update rejected: ${JSON.stringify(pending.changes)}`,
@@ -348,24 +357,26 @@ async function handleRejection(state: AgentState): Promise<Partial<AgentState>>
 /**
  * Handle lookup (from Day 1)
  */
-async function handleLookup(state: AgentState): Promise<Partial<AgentState>> {
+async function handleLookup(state: AgentState, { db }: AgentDeps): Promise<Partial<AgentState>> {
   const target = state.intent?.target?.toLowerCase() || "all";
   
-  let query = supabase.from("leads").select("*");
+  let filter: LeadFilter = {};
   
   if (target === "hot" || target === "high value") {
-    query = query.gt("score", 80);
+    filter = { score_min: 81 };     // Over 80 - scores are whole numbers
   } else if (target !== "all" && target !== "") {
-    query = query.ilike("company_name", `%${target}%`);
+    filter = { search: target };
   }
   
-  const { data, error } = await query.order("score", { ascending: false });
-  
-  if (error) {
-    return { error: error.message, response: "Failed to query leads." };
+  let data: Lead[];
+  try {
+    // Highest score first
+    data = await db.leads.list(null, filter);
+  } catch (error) {
+    return { error: errorMessage(error), response: "Failed to query leads." };
   }
   
-  if (!data?.length) {
+  if (!data.length) {
     return { response: `No leads found matching "${target}".` };
   }
   
@@ -421,105 +432,66 @@ function routeAfterReview(state: AgentState): string {
 // Graph
 // ============================================
 
-const workflow = new StateGraph<AgentState>({
-  channels: {
-    userMessage: { value: (a, b) => b ?? a },
-    intent: { value: (a, b) => b ?? a },
-    leads: { value: (a, b) => b ?? a },
-    selectedLead: { value: (a, b) => b ?? a },
-    pendingAction: { value: (a, b) => b ?? a },
-    approvalStatus: { value: (a, b) => b ?? a },
-    approvalReason: { value: (a, b) => b ?? a },
-    response: { value: (a, b) => b ?? a },
-    error: { value: (a, b) => b ?? a },
-  },
-});
-
-// Add nodes
-workflow.addNode("understand_request", understandRequest);
-workflow.addNode("handle_lookup", handleLookup);
-workflow.addNode("handle_update", handleUpdate);
-workflow.addNode("handle_other", handleOther);
-workflow.addNode("human_review", humanReview);
-workflow.addNode("execute_approved_update", executeApprovedUpdate);
-workflow.addNode("handle_rejection", handleRejection);
-
-// Set entry and routing
-workflow.setEntryPoint("understand_request");
-
-workflow.addConditionalEdges("understand_request", routeByIntent, {
-  handle_lookup: "handle_lookup",
-  handle_update: "handle_update",
-  handle_other: "handle_other",
-});
-
-workflow.addConditionalEdges("handle_update", routeAfterUpdate, {
-  human_review: "human_review",
-  end: END,
-});
-
-workflow.addConditionalEdges("human_review", routeAfterReview, {
-  execute_approved_update: "execute_approved_update",
-  handle_rejection: "handle_rejection",
-  end: END,
-});
-
-// Terminal edges
-workflow.addEdge("handle_lookup", END);
-workflow.addEdge("handle_other", END);
-workflow.addEdge("execute_approved_update", END);
-workflow.addEdge("handle_rejection", END);
-
-const app = workflow.compile();
+// Nodes return `null` to clear a field (e.g. pendingAction after execution),
+// so only a missing key keeps the previous value - `b ?? a` would swallow the null.
+const replace = <T>(a: T, b: T) => (b === undefined ? a : b);
 
-// ============================================
-// Testing
-// ============================================
-
-async function runTests() {
-  const initialState = {
-    userMessage: "",
-    intent: null,
-    leads: [],
-    selectedLead: null,
-    pendingAction: null,
-    approvalStatus: null,
-    approvalReason: null,
-    response: null,
-    error: null,
-  };
-  
-  console.log("=".repeat(60));
-  console.log("APPROVAL GATE TESTS");
-  console.log("=".repeat(60));
+/**
+ * Build the graph around a database and a model. Nothing is shared between
+ * two apps, so each test builds its own.
+ */
+function buildApp(deps: AgentDeps) {
+  const workflow = new StateGraph<AgentState>({
+    channels: {
+      userMessage: { value: replace },
+      intent: { value: replace },
+      leads: { value: replace },
+      selectedLead: { value: replace },
+      pendingAction: { value: replace },
+      approvalStatus: { value: replace },
+      approvalReason: { value: replace },
+      response: { value: replace },
+      error: { value: replace },
+    },
+  });
   
-  // Test 1: Low-value lead (no approval)
-  console.log("\n--- Test 1: Low-value lead (auto-approved) ---");
-  Deno.env.set("AUTO_APPROVE", "");
-  const result1 = await app.invoke({
-    ...initialState,
-    userMessage: "Mark LocalCafe as lost",
+  // Add nodes
+  workflow.addNode("understand_request", (state: AgentState) => understandRequest(state, deps));
+  workflow.addNode("handle_lookup", (state: AgentState) => handleLookup(state, deps));
+  workflow.addNode("handle_update", (state: AgentState) => handleUpdate(state, deps));
+  workflow.addNode("handle_other", handleOther);
+  workflow.addNode("human_review", humanReview);
+  workflow.addNode("execute_approved_update", (state: AgentState) => executeApprovedUpdate(state, deps));
+  workflow.addNode("handle_rejection", (state: AgentState) => handleRejection(state, deps));
+  
+  // Set entry and routing
+  workflow.setEntryPoint("understand_request");
+  
+  workflow.addConditionalEdges("understand_request", routeByIntent, {
+    handle_lookup: "handle_lookup",
+    handle_update: "handle_update",
+    handle_other: "handle_other",
   });
-  console.log("Response:", result1.response);
-  console.log("Approval status:", result1.approvalStatus);
-  
-  // Test 2: High-value lead (needs approval, approved)
-  console.log("\n--- Test 2: High-value lead (approved) ---");
-  Deno.env.set("AUTO_APPROVE", "true");
-  const result2 = await app.invoke({
-    ...initialState,
-    userMessage: "Mark TechCorp as won",
+  
+  workflow.addConditionalEdges("handle_update", routeAfterUpdate, {
+    human_review: "human_review",
+    end: END,
   });
-  console.log("Response:", result2.response);
-  
-  // Test 3: High-value lead (needs approval, rejected)
-  console.log("\n--- Test 3: High-value lead (rejected) ---");
-  Deno.env.set("AUTO_APPROVE", "false");
-  const result3 = await app.invoke({
-    ...initialState,
-    userMessage: "Mark GlobalRetail as lost",
+  
+  workflow.addConditionalEdges("human_review", routeAfterReview, {
+    execute_approved_update: "execute_approved_update",
+    handle_rejection: "handle_rejection",
+    end: END,
   });
-  console.log("Response:", result3.response);
+  
+  // Terminal edges
+  workflow.addEdge("handle_lookup", END);
+  workflow.addEdge("handle_other", END);
+  workflow.addEdge("execute_approved_update", END);
+  workflow.addEdge("handle_rejection", END);
+  
+  return workflow.compile();
 }
 
-runTests().catch(console.error);
+export { buildApp, connectSupabase, needsApproval, parseChanges, routeAfterReview, routeAfterUpdate, routeByIntent };
+export type { AgentState };
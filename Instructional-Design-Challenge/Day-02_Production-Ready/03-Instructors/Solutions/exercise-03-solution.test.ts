@@ -0,0 +1,224 @@
+/**
+ * Tests for exercise-03-solution.ts - retries, error recovery and email.
+ *
+ *   deno test --allow-env --allow-net exercise-03-solution.test.ts
+ *
+ * Each test builds the graph with the in-memory repositories from
+ * starter-kit/repositories.ts, and calls to the Resend API are answered by
+ * a stand-in that records them, so nothing leaves the machine.
+ */
+
+import { assert, assertEquals, assertMatch, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createMemoryCrmRepositories } from "../../../starter-kit/repositories.ts";
+import type { MemoryCrmRepositories } from "../../../starter-kit/repositories.ts";
+import * as agent from "./exercise-03-solution.ts";
+import type { AgentState } from "./exercise-03-solution.ts";
+
+// Without a key the solution only pretends to send
+Deno.env.set("RESEND_API_KEY", "test-resend-key");
+
+// ============================================
+// Fixtures
+// ============================================
+
+interface SentEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+function initialState(userMessage: string): AgentState {
+  return {
+    userMessage,
+    intent: null,
+    leads: [],
+    pendingAction: null,
+    approvalStatus: null,
+    response: null,
+    error: null,
+    errorDetails: null,
+  };
+}
+
+// Fresh sample data, and what human_review decides
+function setup(autoApprove?: "true" | "false"): MemoryCrmRepositories {
+  if (autoApprove) Deno.env.set("AUTO_APPROVE", autoApprove);
+  else Deno.env.delete("AUTO_APPROVE");
+  
+  return createMemoryCrmRepositories();
+}
+
+/**
+ * Runs `fn` with the Resend API replaced by one that records each email
+ * and answers with `status`.
+ */
+async function withResend(status: number, fn: (sent: SentEmail[]) => Promise<void>): Promise<void> {
+  const sent: SentEmail[] = [];
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const request = new Request(input, init);
+    assertEquals(request.url, "https://api.resend.com/emails");
+    sent.push(await request.json());
+    return status < 300
+      ? Response.json({ id: `email-${sent.length}` }, { status })
+      : Response.json({ message: "Invalid `to` field" }, { status });
+  };
+  try {
+    await fn(sent);
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
+
+async function run(db: MemoryCrmRepositories, message: string): Promise<AgentState> {
+  return await agent.buildApp({ db }).invoke(initialState(message), { recursionLimit: 10 });
+}
+
+function leadNamed(db: MemoryCrmRepositories, company: string) {
+  const lead = db.leadRows.find((l) => l.company_name === company);
+  assert(lead, `no sample lead "${company}"`);
+  return lead;
+}
+
+// ============================================
+// Retries
+// ============================================
+
+Deno.test("withRetry tries again after a server error", async () => {
+  let calls = 0;
+  const result = await agent.withRetry(() => {
+    calls++;
+    if (calls < 3) return Promise.reject(Object.assign(new Error("upstream timeout"), { status: 503 }));
+    return Promise.resolve("done");
+  }, { baseDelayMs: 1 });
+  
+  assertEquals(result, "done");
+  assertEquals(calls, 3);
+});
+
+Deno.test("withRetry gives up straight away on a client error", async () => {
+  let calls = 0;
+  await assertRejects(
+    () => agent.withRetry(() => {
+      calls++;
+      return Promise.reject(Object.assign(new Error("bad request"), { status: 400 }));
+    }, { baseDelayMs: 1 }),
+    Error,
+    "bad request",
+  );
+  assertEquals(calls, 1);
+});
+
+Deno.test("withRetry stops after maxRetries", async () => {
+  let calls = 0;
+  await assertRejects(
+    () => agent.withRetry(() => {
+      calls++;
+      return Promise.reject(new Error("network down"));
+    }, { maxRetries: 2, baseDelayMs: 1 }),
+  );
+  assertEquals(calls, 2);
+});
+
+// ============================================
+// Routing
+// ============================================
+
+Deno.test("routeByIntent sends errors to recovery and each intent to its handler", () => {
+  assertEquals(agent.routeByIntent({ ...initialState(""), error: "boom" }), "error_recovery");
+  assertEquals(agent.routeByIntent({ ...initialState(""), intent: { type: "lookup" } }), "handle_lookup");
+  assertEquals(agent.routeByIntent({ ...initialState(""), intent: { type: "followup" } }), "handle_followup");
+  assertEquals(agent.routeByIntent({ ...initialState(""), intent: { type: "unknown" } }), "handle_other");
+});
+
+Deno.test("routeAfterFollowup and routeAfterReview", () => {
+  assertEquals(agent.routeAfterFollowup({ ...initialState(""), error: "boom" }), "error_recovery");
+  assertEquals(agent.routeAfterFollowup({ ...initialState(""), approvalStatus: "pending" }), "human_review");
+  assertEquals(agent.routeAfterFollowup(initialState("")), "end");
+  
+  assertEquals(agent.routeAfterReview({ ...initialState(""), approvalStatus: "approved" }), "execute_email");
+  assertEquals(agent.routeAfterReview({ ...initialState(""), approvalStatus: "rejected" }), "handle_rejection");
+  assertEquals(agent.routeAfterReview({ ...initialState(""), approvalStatus: "pending" }), "end");
+});
+
+// ============================================
+// The graph
+// ============================================
+
+Deno.test("a lookup lists every lead, best first", async () => {
+  const db = setup();
+  
+  const result = await run(db, "Show me all leads");
+  
+  assertEquals(result.leads.map((l) => l.score), [92, 85, 78, 40, 25]);
+  assertMatch(result.response!, /^Found 5 lead\(s\)/);
+});
+
+Deno.test("an approved follow-up is sent, logged and stamps last_contacted_at", async () => {
+  const db = setup("true");
+  
+  await withResend(200, async (sent) => {
+    const result = await run(db, "Send follow-up to TechCorp");
+    
+    assertEquals(sent.length, 1);
+    assertEquals(sent[0].to, "sophie@techcorp.io");
+    assertEquals(sent[0].subject, "Following up - TechCorp Solutions");
+    assertMatch(result.response!, /Email sent to sophie@techcorp\.io[\s\S]*email-1/);
+  });
+  
+  const lead = leadNamed(db, "TechCorp Solutions");
+  assert(lead.last_contacted_at);
+  
+  const logged = db.interactionRows.at(-1)!;
+  assertEquals(logged.lead_id, lead.id);
+  assertEquals(logged.interaction_type, "email_sent");
+  assertEquals(logged.metadata, { message_id: "email-1" });
+});
+
+Deno.test("a rejected follow-up is never sent", async () => {
+  const db = setup("false");
+  
+  await withResend(200, async (sent) => {
+    const result = await run(db, "Send follow-up to TechCorp");
+    
+    assertEquals(sent, []);
+    assertMatch(result.response!, /Email not sent/);
+  });
+  
+  assertEquals(db.interactionRows.length, 2);
+  assertEquals(leadNamed(db, "TechCorp Solutions").last_contacted_at, null);
+});
+
+Deno.test("an email Resend refuses is reported once, without retrying or logging it", async () => {
+  const db = setup("true");
+  
+  await withResend(422, async (sent) => {
+    const result = await run(db, "Send follow-up to TechCorp");
+    
+    assertEquals(sent.length, 1);
+    assertMatch(result.response!, /^❌ Failed to send email/);
+    assertMatch(result.error!, /Resend error/);
+  });
+  
+  assertEquals(db.interactionRows.length, 2);
+});
+
+Deno.test("a follow-up without a company asks who to contact", async () => {
+  const db = setup("true");
+  
+  await withResend(200, async (sent) => {
+    const result = await run(db, "Send a follow-up email");
+    
+    assertEquals(result.response, "Who would you like me to follow up with?");
+    assertEquals(sent, []);
+  });
+});
+
+Deno.test("anything else gets the suggestions", async () => {
+  const db = setup();
+  
+  const result = await agent.runAgent("Hello", agent.buildApp({ db }));
+  
+  assertEquals(result, { success: true, message: `Try: "Show me leads" or "Send follow-up to TechCorp"` });
+});
@@ -10,8 +10,10 @@
  * 4. Error recovery node
  */
 
-import { StateGraph, END } from "@langchain/langgraph";
+import { StateGraph, END } from "https://esm.sh/@langchain/langgraph@0.0.20";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createSupabaseCrmRepositories } from "../../../starter-kit/repositories.ts";
+import type { CrmRepositories, Lead, LeadFilter } from "../../../starter-kit/repositories.ts";
 
 // ============================================
 // Retry Utilities
@@ -158,16 +160,6 @@ function formatUserError(error: any): string {
 // State Definition
 // ============================================
 
-interface Lead {
-  id: string;
-  company_name: string;
-  contact_name: string;
-  contact_email: string;
-  status: string;
-  score: number;
-  estimated_value: number | null;
-}
-
 interface AgentState {
   userMessage: string;
   intent: { type: string; target?: string } | null;
@@ -186,37 +178,39 @@ interface AgentState {
 }
 
 // ============================================
-// Supabase Client with Retry
+// Dependencies
 // ============================================
 
-const supabase = createClient(
-  Deno.env.get("SUPABASE_URL")!,
-  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-);
+// What the nodes work with, passed in when the graph is built, so each test
+// can build its own app around the in-memory sample data
+interface AgentDeps {
+  db: CrmRepositories;
+}
+
+// Leads and interactions in your Supabase project
+function connectSupabase(): CrmRepositories {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  return createSupabaseCrmRepositories(supabase);
+}
+
+// ============================================
+// Database Queries with Retry
+// ============================================
 
-async function queryLeadsWithRetry(filter?: { column: string; value: any; operator?: string }): Promise<Lead[]> {
+async function queryLeadsWithRetry(db: CrmRepositories, filter: LeadFilter = {}): Promise<Lead[]> {
   return withRetry(async () => {
-    let query = supabase.from("leads").select("*");
-    
-    if (filter) {
-      if (filter.operator === "gt") {
-        query = query.gt(filter.column, filter.value);
-      } else if (filter.operator === "ilike") {
-        query = query.ilike(filter.column, filter.value);
-      } else {
-        query = query.eq(filter.column, filter.value);
-      }
-    }
-    
-    const { data, error } = await query.order("score", { ascending: false });
-    
-    if (error) {
-      const e = new Error(error.message);
-      (e as any).status = error.code === "PGRST116" ? 404 : 500;
+    try {
+      // Highest score first
+      return await db.leads.list(null, filter);
+    } catch (error) {
+      const { message, code } = error as { message: string; code?: string };
+      const e = new Error(message);
+      (e as any).status = code === "PGRST116" ? 404 : 500;
       throw e;
     }
-    
-    return data || [];
   });
 }
 
@@ -224,7 +218,7 @@ async function queryLeadsWithRetry(filter?: { column: string; value: any; operat
 // Nodes
 // ============================================
 
-async function handleFollowup(state: AgentState): Promise<Partial<AgentState>> {
+async function handleFollowup(state: AgentState, { db }: AgentDeps): Promise<Partial<AgentState>> {
   const target = state.intent?.target;
   
   if (!target) {
@@ -234,11 +228,7 @@ async function handleFollowup(state: AgentState): Promise<Partial<AgentState>> {
   }
   
   try {
-    const leads = await queryLeadsWithRetry({
-      column: "company_name",
-      value: `%${target}%`,
-      operator: "ilike",
-    });
+    const leads = await queryLeadsWithRetry(db, { search: target });
     
     if (leads.length === 0) {
       return {
@@ -280,7 +270,7 @@ Best regards`,
   }
 }
 
-async function executeApprovedEmail(state: AgentState): Promise<Partial<AgentState>> {
+async function executeApprovedEmail(state: AgentState, { db }: AgentDeps): Promise<Partial<AgentState>> {
   const pending = state.pendingAction;
   
   if (!pending || pending.type !== "send_email" || !pending.emailContent) {
@@ -298,7 +288,8 @@ async function executeApprovedEmail(state: AgentState): Promise<Partial<AgentSta
     }
     
     // Log the interaction
-    await supabase.from("interactions").insert({
+    await db.interactions.add({
+      org_id: null,
       lead_id: pending.leadId,
       interaction_type: "email_sent",
       description: `Sent: "${pending.emailContent.subject}"`,
@@ -309,10 +300,7 @@ async function executeApprovedEmail(state: AgentState): Promise<Partial<AgentSta
     });
     
     // Update last contacted
-    await supabase
-      .from("leads")
-      .update({ last_contacted_at: new Date().toISOString() })
-      .eq("id", pending.leadId);
+    await db.leads.update(null, pending.leadId, { last_contacted_at: new Date().toISOString() });
     
     return {
       response: `✅ Email sent to ${pending.emailContent.to}!\n\nMessage ID: ${result.messageId}`,
@@ -383,19 +371,15 @@ function extractCompanyName(message: string): string | undefined {
   return undefined;
 }
 
-async function handleLookup(state: AgentState): Promise<Partial<AgentState>> {
+async function handleLookup(state: AgentState, { db }: AgentDeps): Promise<Partial<AgentState>> {
   try {
     const target = state.intent?.target;
     let leads: Lead[];
     
     if (target) {
-      leads = await queryLeadsWithRetry({
-        column: "company_name",
-        value: `%${target}%`,
-        operator: "ilike",
-      });
+      leads = await queryLeadsWithRetry(db, { search: target });
     } else {
-      leads = await queryLeadsWithRetry();
+      leads = await queryLeadsWithRetry(db);
     }
     
     if (leads.length === 0) {
@@ -476,62 +460,71 @@ function routeAfterReview(state: AgentState): string {
 // Graph
 // ============================================
 
-const workflow = new StateGraph<AgentState>({
-  channels: {
-    userMessage: { value: (a, b) => b ?? a },
-    intent: { value: (a, b) => b ?? a },
-    leads: { value: (a, b) => b ?? a },
-    pendingAction: { value: (a, b) => b ?? a },
-    approvalStatus: { value: (a, b) => b ?? a },
-    response: { value: (a, b) => b ?? a },
-    error: { value: (a, b) => b ?? a },
-    errorDetails: { value: (a, b) => b ?? a },
-  },
-});
-
-workflow.addNode("understand_request", understandRequest);
-workflow.addNode("handle_lookup", handleLookup);
-workflow.addNode("handle_followup", handleFollowup);
-workflow.addNode("handle_other", handleOther);
-workflow.addNode("human_review", humanReview);
-workflow.addNode("execute_email", executeApprovedEmail);
-workflow.addNode("handle_rejection", handleRejection);
-workflow.addNode("error_recovery", errorRecovery);
-
-workflow.setEntryPoint("understand_request");
-
-workflow.addConditionalEdges("understand_request", routeByIntent, {
-  handle_lookup: "handle_lookup",
-  handle_followup: "handle_followup",
-  handle_other: "handle_other",
-  error_recovery: "error_recovery",
-});
-
-workflow.addConditionalEdges("handle_followup", routeAfterFollowup, {
-  human_review: "human_review",
-  error_recovery: "error_recovery",
-  end: END,
-});
-
-workflow.addConditionalEdges("human_review", routeAfterReview, {
-  execute_email: "execute_email",
-  handle_rejection: "handle_rejection",
-  end: END,
-});
-
-workflow.addEdge("handle_lookup", END);
-workflow.addEdge("handle_other", END);
-workflow.addEdge("execute_email", END);
-workflow.addEdge("handle_rejection", END);
-workflow.addEdge("error_recovery", END);
-
-const app = workflow.compile();
+/**
+ * Build the graph around a database. Nothing is shared between two apps,
+ * so each test builds its own.
+ */
+function buildApp(deps: AgentDeps) {
+  const workflow = new StateGraph<AgentState>({
+    channels: {
+      userMessage: { value: (a, b) => b ?? a },
+      intent: { value: (a, b) => b ?? a },
+      leads: { value: (a, b) => b ?? a },
+      pendingAction: { value: (a, b) => b ?? a },
+      approvalStatus: { value: (a, b) => b ?? a },
+      response: { value: (a, b) => b ?? a },
+      error: { value: (a, b) => b ?? a },
+      errorDetails: { value: (a, b) => b ?? a },
+    },
+  });
+  
+  workflow.addNode("understand_request", understandRequest);
+  workflow.addNode("handle_lookup", (state: AgentState) => handleLookup(state, deps));
+  workflow.addNode("handle_followup", (state: AgentState) => handleFollowup(state, deps));
+  workflow.addNode("handle_other", handleOther);
+  workflow.addNode("human_review", humanReview);
+  workflow.addNode("execute_email", (state: AgentState) => executeApprovedEmail(state, deps));
+  workflow.addNode("handle_rejection", handleRejection);
+  workflow.addNode("error_recovery", errorRecovery);
+  
+  workflow.setEntryPoint("understand_request");
+  
+  workflow.addConditionalEdges("understand_request", routeByIntent, {
+    handle_lookup: "handle_lookup",
+    handle_followup: "handle_followup",
+    handle_other: "handle_other",
+    error_recovery: "error_recovery",
+  });
+  
+  workflow.addConditionalEdges("handle_followup", routeAfterFollowup, {
+    human_review: "human_review",
+    error_recovery: "error_recovery",
+    end: END,
+  });
+  
+  workflow.addConditionalEdges("human_review", routeAfterReview, {
+    execute_email: "execute_email",
+    handle_rejection: "handle_rejection",
+    end: END,
+  });
+  
+  workflow.addEdge("handle_lookup", END);
+  workflow.addEdge("handle_other", END);
+  workflow.addEdge("execute_email", END);
+  workflow.addEdge("handle_rejection", END);
+  workflow.addEdge("error_recovery", END);
+  
+  return workflow.compile();
+}
 
 // ============================================
 // Export for Edge Function
 // ============================================
 
-export async function runAgent(message: string): Promise<{ success: boolean; message: string }> {
+export async function runAgent(
+  message: string,
+  app = buildApp({ db: connectSupabase() })
+): Promise<{ success: boolean; message: string }> {
   const result = await app.invoke({
     userMessage: message,
     intent: null,
@@ -549,23 +542,5 @@ export async function runAgent(message: string): Promise<{ success: boolean; mes
   };
 }
 
-// Test
-async function test() {
-  console.log("Testing resilient agent...\n");
-  
-  Deno.env.set("AUTO_APPROVE", "true");
-  
-  const tests = [
-    "Show me all leads",
-    "Send follow-up to TechCorp",
-    "Hello",
-  ];
-  
-  for (const msg of tests) {
-    console.log(`\n> ${msg}`);
-    const result = await runAgent(msg);
-    console.log(result.message);
-  }
-}
-
-test().catch(console.error);
+export { buildApp, connectSupabase, routeAfterFollowup, routeAfterReview, routeByIntent, withRetry };
+export type { AgentState };
@@ -0,0 +1,115 @@
+/**
+ * Tests for exercise-04-intent-eval.ts - scoring and the baseline comparison.
+ *
+ *   deno test --allow-env --allow-read --allow-net exercise-04-intent-eval.test.ts
+ *
+ * score() and findRegressions() are checked on small hand-made results; the
+ * last test runs the whole eval against the committed fixture, so a change
+ * that moves the numbers fails here until the baseline is updated.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { findRegressions, main, score } from "./exercise-04-intent-eval.ts";
+import type { CaseResult, EvalCase } from "./exercise-04-intent-eval.ts";
+
+const CASES: EvalCase[] = [
+  { message: "Show me all leads", type: "lookup" },
+  { message: "Qualify TechCorp", type: "qualify", target: "TechCorp" },
+  { message: "Follow up with Marcus", type: "followup", target: ["Marcus", "Marcus Chen"] },
+  { message: "Hello", type: "unknown" },
+];
+
+function result(type: CaseResult["type"], target: string | null, correct: boolean, targetCorrect: boolean | null = null): CaseResult {
+  return { type, target, typeCorrect: correct || targetCorrect === false, targetCorrect, correct };
+}
+
+// Every case right
+const ALL_RIGHT: Record<string, CaseResult> = {
+  "Show me all leads": result("lookup", null, true),
+  "Qualify TechCorp": result("qualify", "TechCorp", true, true),
+  "Follow up with Marcus": result("followup", "Marcus", true, true),
+  "Hello": result("unknown", null, true),
+};
+
+// The qualify request read as a lookup, the follow-up aimed at the wrong
+// lead and the greeting failing outright
+const THREE_WRONG: Record<string, CaseResult> = {
+  "Show me all leads": result("lookup", null, true),
+  "Qualify TechCorp": result("lookup", null, false, false),
+  "Follow up with Marcus": result("followup", "Sophie", false, false),
+  "Hello": result("error", null, false),
+};
+
+// ============================================
+// score
+// ============================================
+
+Deno.test("score counts each expected intent against what was predicted", () => {
+  const report = score(CASES, THREE_WRONG, "test/model");
+  
+  assertEquals(report.model, "test/model");
+  assertEquals(report.confusion.lookup.lookup, 1);
+  assertEquals(report.confusion.qualify.lookup, 1);
+  assertEquals(report.confusion.followup.followup, 1);
+  assertEquals(report.confusion.unknown.error, 1);
+  assertEquals(report.confusion.update, { lookup: 0, qualify: 0, update: 0, followup: 0, undo: 0, unknown: 0, error: 0 });
+});
+
+Deno.test("score works out precision and recall per intent", () => {
+  const { intents } = score(CASES, THREE_WRONG, "test/model");
+  
+  // Two lookups predicted, one of them right
+  assertEquals(intents.lookup, { precision: 0.5, recall: 1, support: 1 });
+  assertEquals(intents.qualify, { precision: 1, recall: 0, support: 1 });
+  // The right intent with the wrong lead still counts for the intent
+  assertEquals(intents.followup, { precision: 1, recall: 1, support: 1 });
+  // A failure is never a correct unknown
+  assertEquals(intents.unknown, { precision: 1, recall: 0, support: 1 });
+  // Nothing expected or predicted is perfect, not 0/0
+  assertEquals(intents.update, { precision: 1, recall: 1, support: 0 });
+});
+
+Deno.test("score's accuracy needs the lead too, where one is expected", () => {
+  const report = score(CASES, THREE_WRONG, "test/model");
+  
+  assertEquals(report.accuracy, 0.25);
+  assertEquals(report.targetAccuracy, 0);
+  assertEquals(score(CASES, ALL_RIGHT, "test/model").accuracy, 1);
+  assertEquals(score(CASES, ALL_RIGHT, "test/model").targetAccuracy, 1);
+});
+
+// ============================================
+// findRegressions
+// ============================================
+
+Deno.test("findRegressions lists cases that broke and scores that dropped", () => {
+  const baseline = score(CASES, ALL_RIGHT, "test/model");
+  const report = score(CASES, THREE_WRONG, "test/model");
+  
+  assertEquals(findRegressions(report, baseline, CASES), [
+    `"Qualify TechCorp": expected qualify "TechCorp", got lookup`,
+    `"Follow up with Marcus": expected followup "Marcus", got followup "Sophie"`,
+    `"Hello": expected unknown, got error`,
+    "lookup precision 100.0% → 50.0%",
+    "qualify recall 100.0% → 0.0%",
+    "unknown recall 100.0% → 0.0%",
+  ]);
+});
+
+Deno.test("findRegressions ignores fixes, and cases the baseline doesn't have", () => {
+  const { "Hello": _, ...earlier } = THREE_WRONG;
+  const baseline = score(CASES.slice(0, 3), earlier, "test/model");
+  const report = score(CASES, { ...ALL_RIGHT, "Hello": result("error", null, false) }, "test/model");
+  
+  // The two wrong answers are right now. "Hello" is new, so getting it
+  // wrong isn't a broken case - but it still drags unknown's recall down.
+  assertEquals(findRegressions(report, baseline, CASES), ["unknown recall 100.0% → 0.0%"]);
+});
+
+// ============================================
+// The committed fixture and baseline
+// ============================================
+
+Deno.test("the fixture still scores exactly as the committed baseline", async () => {
+  assertEquals(await main(["--fixture"]), 0);
+});
@@ -0,0 +1,311 @@
+/**
+ * Intent classification eval for exercise-04-solution.ts
+ *
+ * Runs understandRequest() on every labelled message in
+ * exercise-04-intent-eval.json and reports how often it picks the right
+ * intent and lead: precision/recall per intent, a confusion matrix, and what
+ * got worse since the stored baseline.
+ *
+ *   # Offline, against the committed fixture (what CI runs)
+ *   deno run -A exercise-04-intent-eval.ts --fixture
+ *
+ *   # Against the live model (LLM_PROVIDER etc. from the environment),
+ *   # saving every response so the run can be repeated offline
+ *   deno run -A exercise-04-intent-eval.ts --record --baseline claude.baseline.json
+ *
+ *   # Offline, from the saved responses. A prompt that was never recorded
+ *   # (say, because you edited it) stops the run - record again.
+ *   deno run -A exercise-04-intent-eval.ts --replay --baseline claude.baseline.json
+ *
+ *   # Accept this run as the new baseline
+ *   deno run -A exercise-04-intent-eval.ts --fixture --update-baseline
+ *
+ * exercise-04-intent-eval.fixture.json is a scripted model: one canned tool
+ * call per message, matched on the message rather than the whole prompt, so
+ * prompt edits don't invalidate it. Most calls are the labelled answer and
+ * three are the kind of mix-up a model makes (an open question read as
+ * small talk, "worth pursuing" as a lookup, "nudge ... about the proposal"
+ * as a status change). It checks that the tool calls still parse into the
+ * right intents and that scoring and the baseline comparison work; it says
+ * nothing about how well a real model follows the prompt. For that, record
+ * a live run against its own baseline - a run is only compared with a
+ * baseline from the same model.
+ *
+ * Exits with status 1 when something that passed in the baseline fails now,
+ * or when there is no baseline to compare with, so it can run in CI.
+ */
+
+import { parse } from "https://deno.land/std@0.168.0/flags/mod.ts";
+import { createLlmClient } from "../../../starter-kit/llm-client.ts";
+import type { AgentIntent } from "./exercise-04-solution.ts";
+
+type Agent = typeof import("./exercise-04-solution.ts");
+
+const here = new URL(".", import.meta.url).pathname;
+
+// ============================================
+// Dataset and results
+// ============================================
+
+type IntentType = AgentIntent["type"];
+
+// What the classifier produced when it failed outright
+type Predicted = IntentType | "error";
+
+const INTENT_TYPES: IntentType[] = ["lookup", "qualify", "update", "followup", "undo", "unknown"];
+
+interface EvalCase {
+  message: string;
+  type: IntentType;
+  // The lead the message is about; a list when several answers are fine
+  // ("Tom" or "LocalCafe"). Omitted when there is no lead.
+  target?: string | string[];
+}
+
+interface CaseResult {
+  type: Predicted;
+  target: string | null;
+  typeCorrect: boolean;
+  targetCorrect: boolean | null;    // null = no target expected
+  correct: boolean;
+}
+
+interface IntentScore {
+  precision: number;
+  recall: number;
+  support: number;                  // How many cases expect this intent
+}
+
+interface EvalReport {
+  model: string;
+  createdAt: string;
+  accuracy: number;
+  targetAccuracy: number;
+  intents: Record<string, IntentScore>;
+  confusion: Record<string, Record<string, number>>;   // expected → predicted → count
+  results: Record<string, CaseResult>;                   // By message
+}
+
+function sameTarget(expected: string | string[], actual: string | null): boolean {
+  const normalize = (name: string) => name.trim().toLowerCase();
+  return actual !== null && [expected].flat().some((name) => normalize(name) === normalize(actual));
+}
+
+async function classify(agent: Agent, testCase: EvalCase, offline: string | null): Promise<CaseResult> {
+  const state = agent.createInitialState(testCase.message, crypto.randomUUID(), null, null);
+  const { intent, error } = await agent.understandRequest(state);
+  
+  // The node turns a model failure into state.error; offline that means the
+  // recording or fixture is missing this message, which must not pass as a
+  // wrong answer
+  if (error && offline) throw new Error(`Not in ${offline}: "${testCase.message}" (${error}). Record again.`);
+  
+  const type: Predicted = error ? "error" : intent!.type;
+  const target = intent && "target" in intent ? intent.target : null;
+  const typeCorrect = type === testCase.type;
+  const targetCorrect = testCase.target ? typeCorrect && sameTarget(testCase.target, target) : null;
+  
+  return { type, target, typeCorrect, targetCorrect, correct: typeCorrect && targetCorrect !== false };
+}
+
+function score(cases: EvalCase[], results: Record<string, CaseResult>, model: string): EvalReport {
+  const labels: Predicted[] = [...INTENT_TYPES, "error"];
+  const confusion: EvalReport["confusion"] = {};
+  for (const expected of INTENT_TYPES) {
+    confusion[expected] = Object.fromEntries(labels.map((label) => [label, 0]));
+  }
+  for (const testCase of cases) confusion[testCase.type][results[testCase.message].type]++;
+  
+  const intents: EvalReport["intents"] = {};
+  for (const type of INTENT_TYPES) {
+    const truePositives = confusion[type][type];
+    const predicted = INTENT_TYPES.reduce((sum, expected) => sum + confusion[expected][type], 0);
+    const support = cases.filter((c) => c.type === type).length;
+    intents[type] = {
+      // Nothing predicted or expected counts as perfect rather than 0/0
+      precision: predicted ? truePositives / predicted : 1,
+      recall: support ? truePositives / support : 1,
+      support,
+    };
+  }
+  
+  const all = Object.values(results);
+  const withTarget = all.filter((r) => r.targetCorrect !== null);
+  return {
+    model,
+    createdAt: new Date().toISOString(),
+    accuracy: all.filter((r) => r.correct).length / all.length,
+    targetAccuracy: withTarget.length ? withTarget.filter((r) => r.targetCorrect).length / withTarget.length : 1,
+    intents,
+    confusion,
+    results,
+  };
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function printReport(report: EvalReport, cases: EvalCase[]): void {
+  console.log(`\nModel: ${report.model}`);
+  console.log(`Cases: ${cases.length}`);
+  console.log(`Accuracy (intent and lead): ${percent(report.accuracy)}`);
+  console.log(`Lead accuracy where one is expected: ${percent(report.targetAccuracy)}\n`);
+  
+  console.log(`${"intent".padEnd(10)}${"precision".padStart(11)}${"recall".padStart(9)}${"support".padStart(9)}`);
+  for (const [type, s] of Object.entries(report.intents)) {
+    console.log(`${type.padEnd(10)}${percent(s.precision).padStart(11)}${percent(s.recall).padStart(9)}${String(s.support).padStart(9)}`);
+  }
+  
+  // Rows are what the message was, columns what the classifier said
+  const columns = Object.keys(Object.values(report.confusion)[0]);
+  console.log(`\nConfusion matrix (rows: expected, columns: predicted)`);
+  console.log("".padEnd(10) + columns.map((c) => c.padStart(9)).join(""));
+  for (const [expected, row] of Object.entries(report.confusion)) {
+    console.log(expected.padEnd(10) + columns.map((c) => String(row[c] || ".").padStart(9)).join(""));
+  }
+  
+  const failures = cases.filter((c) => !report.results[c.message].correct);
+  if (failures.length) {
+    console.log(`\nWrong (${failures.length}):`);
+    for (const c of failures) console.log(`  ${describeMiss(c, report.results[c.message])}`);
+  }
+}
+
+function describeMiss(testCase: EvalCase, result: CaseResult): string {
+  const expected = testCase.target ? `${testCase.type} "${[testCase.target].flat()[0]}"` : testCase.type;
+  const actual = result.target ? `${result.type} "${result.target}"` : result.type;
+  return `"${testCase.message}": expected ${expected}, got ${actual}`;
+}
+
+/**
+ * Cases that passed in the baseline and fail now, plus any intent whose
+ * precision or recall dropped. Cases added since the baseline aren't
+ * regressions - they have nothing to compare against.
+ */
+function findRegressions(report: EvalReport, baseline: EvalReport, cases: EvalCase[]): string[] {
+  const regressions: string[] = [];
+  
+  for (const testCase of cases) {
+    const before = baseline.results[testCase.message];
+    const now = report.results[testCase.message];
+    if (before?.correct && !now.correct) regressions.push(describeMiss(testCase, now));
+  }
+  
+  for (const [type, now] of Object.entries(report.intents)) {
+    const before = baseline.intents[type];
+    if (!before) continue;
+    if (now.precision < before.precision) {
+      regressions.push(`${type} precision ${percent(before.precision)} → ${percent(now.precision)}`);
+    }
+    if (now.recall < before.recall) {
+      regressions.push(`${type} recall ${percent(before.recall)} → ${percent(now.recall)}`);
+    }
+  }
+  return regressions;
+}
+
+async function readJson<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return null;
+    throw e;
+  }
+}
+
+// ============================================
+// Main
+// ============================================
+
+async function main(argv: string[]): Promise<number> {
+  const args = parse(argv, {
+    boolean: ["fixture", "record", "replay", "update-baseline"],
+    string: ["dataset", "baseline", "recording"],
+    default: {
+      dataset: `${here}exercise-04-intent-eval.json`,
+      baseline: `${here}exercise-04-intent-eval.baseline.json`,
+      recording: `${here}exercise-04-intent-eval.recording`,
+    },
+  });
+  if ([args.fixture, args.record, args.replay].filter(Boolean).length > 1) {
+    console.error("Use only one of --fixture, --record and --replay");
+    return 2;
+  }
+  
+  // Classification never touches the database, but the solution won't load
+  // without a Supabase URL and key
+  for (const [name, value] of [["SUPABASE_URL", "http://localhost:54321"], ["SUPABASE_SERVICE_ROLE_KEY", "unused"], ["SUPABASE_ANON_KEY", "unused"]]) {
+    if (!Deno.env.get(name)) Deno.env.set(name, value);
+  }
+  
+  const fixture = `${here}exercise-04-intent-eval.fixture.json`;
+  if (args.fixture) {
+    Deno.env.set("LLM_PROVIDER", "scripted");
+    Deno.env.set("LLM_SCRIPT_FILE", fixture);
+  }
+  // The recording is an LLM_CACHE directory: one file per prompt sent
+  if (args.record || args.replay) {
+    Deno.env.set("LLM_CACHE", args.record ? "record" : "replay");
+    Deno.env.set("LLM_CACHE_DIR", args.recording);
+  }
+  const offline = args.fixture ? fixture : args.replay ? args.recording : null;
+  
+  const cases = await readJson<EvalCase[]>(args.dataset);
+  if (!cases?.length) throw new Error(`No cases in ${args.dataset}`);
+  const mislabelled = cases.find((c) => !INTENT_TYPES.includes(c.type));
+  if (mislabelled) throw new Error(`"${mislabelled.message}" has unknown type "${mislabelled.type}"`);
+  
+  const agent: Agent = await import("./exercise-04-solution.ts");
+  const client = createLlmClient();
+  agent.useLlmClient(client);
+  
+  const results: Record<string, CaseResult> = {};
+  for (const testCase of cases) {
+    results[testCase.message] = await classify(agent, testCase, offline);
+    Deno.stdout.writeSync(new TextEncoder().encode(results[testCase.message].correct ? "." : "F"));
+  }
+  console.log();
+  
+  if (args.record) console.log(`Recorded the responses in ${args.recording}`);
+  if (offline) console.log(`Answered from ${offline}`);
+  
+  const report = score(cases, results, `${client.name}/${client.model}`);
+  printReport(report, cases);
+  
+  if (args["update-baseline"]) {
+    await Deno.writeTextFile(args.baseline, JSON.stringify(report, null, 2) + "\n");
+    console.log(`\nBaseline saved to ${args.baseline}`);
+    return 0;
+  }
+  
+  const baseline = await readJson<EvalReport>(args.baseline);
+  if (!baseline) {
+    console.log(`\nNo baseline at ${args.baseline} - run with --update-baseline to save this one.`);
+    return 1;
+  }
+  if (baseline.model !== report.model) {
+    console.log(`\n${args.baseline} is for ${baseline.model}, not ${report.model} - pass the baseline for this model, or --update-baseline to start one.`);
+    return 1;
+  }
+  
+  const regressions = findRegressions(report, baseline, cases);
+  const fixed = cases.filter((c) => baseline.results[c.message]?.correct === false && report.results[c.message].correct);
+  console.log(`\nVersus baseline (${baseline.createdAt.slice(0, 10)}): accuracy ${percent(baseline.accuracy)} → ${percent(report.accuracy)}`);
+  if (fixed.length) console.log(`Fixed: ${fixed.map((c) => `"${c.message}"`).join(", ")}`);
+  if (!regressions.length) {
+    console.log("No regressions.");
+    return 0;
+  }
+  console.log(`Regressions (${regressions.length}):`);
+  for (const regression of regressions) console.log(`  ${regression}`);
+  return 1;
+}
+
+// Only when run as a script: the tests import score() and findRegressions()
+if (import.meta.main) Deno.exit(await main(Deno.args));
+
+export { findRegressions, main, score };
+export type { CaseResult, EvalCase, EvalReport };
@@ -0,0 +1,575 @@
+/**
+ * Tests for exercise-04-solution.ts
+ *
+ *   deno test --allow-env --allow-read --allow-write --allow-net exercise-04-solution.test.ts
+ *
+ * The compiled graph runs against a scripted model, the in-memory
+ * repositories (the sample leads from supabase-schema.sql) and an email
+ * transport that only records, so no API keys, database or mail server are
+ * needed. Most approvals use AUTO_APPROVE, which the human_review node reads
+ * on every run; one test pauses instead and approves as a manager.
+ */
+
+import { assert, assertEquals, assertMatch } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createCachedLlmClient, createScriptedClient } from "../../../starter-kit/llm-client.ts";
+import type { LlmClient, LlmRequest, ScriptedReply } from "../../../starter-kit/llm-client.ts";
+import type { AgentState, MemoryRepositories, OutgoingEmail } from "./exercise-04-solution.ts";
+
+// The solution reads its configuration when it's loaded, so this has to be
+// in place before the import below
+Deno.env.set("SUPABASE_URL", "http://localhost:54321");
+Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", "test-service-role-key");
+Deno.env.set("SUPABASE_ANON_KEY", "test-anon-key");
+Deno.env.set("ANTHROPIC_API_KEY", "test-api-key");
+Deno.env.set("CHECKPOINTER", "memory");
+Deno.env.set("CRM_STORE", "memory");
+Deno.env.set("EMAIL_SIGNATURE", "Best regards");
+
+const agent = await import("./exercise-04-solution.ts");
+
+const USER_ID = "00000000-0000-0000-0000-0000000000aa";
+
+// Longer than any real path through the graph (the longest is five steps),
+// so a routing loop fails the test instead of hanging it
+const RECURSION_LIMIT = 10;
+
+// ============================================
+// Fixtures
+// ============================================
+
+interface Fixture {
+  repos: MemoryRepositories;
+  model: LlmClient & { calls: LlmRequest[] };
+  sent: OutgoingEmail[];
+}
+
+function setup(script: ScriptedReply[], autoApprove?: "true" | "false"): Fixture {
+  const repos = agent.createMemoryRepositories();
+  const model = createScriptedClient(script);
+  const sent: OutgoingEmail[] = [];
+  
+  agent.useRepositories(repos);
+  agent.useLlmClient(model);
+  agent.useEmailTransport({
+    name: "recording",
+    async send(email) {
+      sent.push(email);
+      return { success: true, messageId: `<${sent.length}@test.local>` };
+    },
+  });
+  
+  if (autoApprove) Deno.env.set("AUTO_APPROVE", autoApprove);
+  else Deno.env.delete("AUTO_APPROVE");
+  
+  return { repos, model, sent };
+}
+
+// The classifier's reply to a message: call `tool` with `input`
+function classify(message: string, tool: string, input: unknown): ScriptedReply {
+  return { match: `Message: "${message}"`, tool: "lookup_leads", toolCall: { name: tool, input } };
+}
+
+// A new message, or the next one in a conversation that paused
+async function run(message: string, previous?: AgentState): Promise<AgentState> {
+  const state = previous
+    ? { ...previous, userMessage: message, response: null }
+    : agent.createInitialState(message, crypto.randomUUID(), USER_ID, agent.DEMO_ORG_ID);
+  return await agent.app.invoke(state, { recursionLimit: RECURSION_LIMIT });
+}
+
+function leadNamed(repos: MemoryRepositories, company: string) {
+  const lead = repos.leadRows.find((l) => l.company_name === company);
+  assert(lead, `no sample lead "${company}"`);
+  return lead;
+}
+
+function interactionsFor(repos: MemoryRepositories, company: string) {
+  const lead = leadNamed(repos, company);
+  return repos.interactionRows.filter((i) => i.lead_id === lead.id);
+}
+
+function stateWith(changes: Partial<AgentState>): AgentState {
+  return { ...agent.createInitialState("test", "thread", USER_ID, agent.DEMO_ORG_ID), ...changes };
+}
+
+// ============================================
+// Routing
+// ============================================
+
+Deno.test("routeByIntent sends each intent to its handler", () => {
+  const cases: [AgentState["intent"], string][] = [
+    [{ type: "lookup", filter: {} }, "handle_lookup"],
+    [{ type: "qualify", target: "TechCorp" }, "handle_qualify"],
+    [{ type: "update", target: "TechCorp", changes: { status: "won" } }, "handle_update"],
+    [{ type: "followup", target: "TechCorp" }, "handle_followup"],
+    [{ type: "undo", target: "TechCorp" }, "handle_undo"],
+    [{ type: "unknown", rawMessage: "hello" }, "handle_other"],
+    [null, "handle_other"],
+  ];
+  for (const [intent, node] of cases) {
+    assertEquals(agent.routeByIntent(stateWith({ intent })), node, `intent ${intent?.type}`);
+  }
+});
+
+Deno.test("routeByIntent ends the run when classification failed", () => {
+  assertEquals(agent.routeByIntent(stateWith({ error: "rate limited", intent: null })), "end");
+});
+
+Deno.test("routeAfterAction asks, reviews, executes or stops", () => {
+  const lead = agent.createMemoryRepositories().leadRows[0];
+  assertEquals(agent.routeAfterAction(stateWith({ candidates: [lead, lead] })), "disambiguate");
+  assertEquals(agent.routeAfterAction(stateWith({ approvalStatus: "pending" })), "human_review");
+  assertEquals(agent.routeAfterAction(stateWith({ approvalStatus: "approved" })), "execute_approved");
+  assertEquals(agent.routeAfterAction(stateWith({})), "end");
+  // A question wins over an approval: nothing can be approved until we know which lead
+  assertEquals(agent.routeAfterAction(stateWith({ candidates: [lead], approvalStatus: "pending" })), "disambiguate");
+});
+
+Deno.test("routeAfterReview executes approvals and handles every other decision", () => {
+  assertEquals(agent.routeAfterReview(stateWith({ approvalStatus: "approved" })), "execute_approved");
+  for (const status of ["rejected", "cancelled", "expired"] as const) {
+    assertEquals(agent.routeAfterReview(stateWith({ approvalStatus: status })), "handle_rejection", status);
+  }
+  // Still waiting: the run stops and resumes from its checkpoint later
+  assertEquals(agent.routeAfterReview(stateWith({ approvalStatus: "pending" })), "end");
+  assertEquals(agent.routeAfterReview(stateWith({ approvalStatus: null })), "end");
+});
+
+// ============================================
+// Lookups
+// ============================================
+
+Deno.test("lookup applies the filter from the tool call", async () => {
+  const { model, sent } = setup([
+    classify("Show me hot leads", "lookup_leads", { filter: { score_min: 80 } }),
+  ]);
+  
+  const result = await run("Show me hot leads");
+  
+  assertEquals(result.intent, { type: "lookup", filter: { score_min: 80 } });
+  assertEquals(result.leads.map((l) => l.company_name), ["GlobalRetail Inc", "TechCorp Solutions"]);
+  assertMatch(result.response!, /Found 2 lead\(s\) \(score ≥ 80\)/);
+  assertEquals(model.calls.length, 1);
+  assertEquals(sent, []);
+});
+
+Deno.test("an invalid filter from the model becomes an unknown request", async () => {
+  setup([
+    classify("Show me leads", "lookup_leads", { filter: { score_min: 500 } }),
+  ]);
+  
+  const result = await run("Show me leads");
+  
+  assertEquals(result.intent?.type, "unknown");
+  assertEquals(result.leads, []);
+  assertMatch(result.response!, /^Try:/);
+});
+
+// ============================================
+// Updates
+// ============================================
+
+Deno.test("an update that needs no approval is applied and logged with before/after values", async () => {
+  const { repos } = setup([
+    classify("Mark LocalCafe as qualified", "update_lead", { target: "LocalCafe", changes: { status: "qualified" } }),
+  ]);
+  
+  const result = await run("Mark LocalCafe as qualified");
+  
+  assertEquals(result.approvalStatus, null);
+  assertMatch(result.response!, /Updated LocalCafe/);
+  assertEquals(leadNamed(repos, "LocalCafe").status, "qualified");
+  
+  const [logged] = interactionsFor(repos, "LocalCafe");
+  assertEquals(logged.interaction_type, "status_change");
+  assertEquals(logged.performed_by, USER_ID);
+  assertEquals(logged.metadata.before, { status: "contacted" });
+  assertEquals(logged.metadata.after, { status: "qualified" });
+});
+
+Deno.test("an approved update to a high-scoring lead is applied", async () => {
+  const { repos } = setup([
+    classify("Set TechCorp's value to 60000", "update_lead", { target: "TechCorp", changes: { estimated_value: 60000 } }),
+  ], "true");
+  
+  const result = await run("Set TechCorp's value to 60000");
+  
+  assertEquals(result.response, "✅ Updated TechCorp Solutions!");
+  assertEquals(result.pendingAction, null);
+  assertEquals(leadNamed(repos, "TechCorp Solutions").estimated_value, 60000);
+  
+  const logged = interactionsFor(repos, "TechCorp Solutions").at(-1)!;
+  assertEquals(logged.interaction_type, "status_change");
+  assertEquals(logged.approved, true);
+  assertEquals(logged.approved_by, "auto_approve");
+  assertEquals(logged.metadata.before, { estimated_value: 45000 });
+});
+
+Deno.test("a rejected update to a high-scoring lead changes nothing", async () => {
+  const { repos } = setup([
+    classify("Mark TechCorp as lost", "update_lead", { target: "TechCorp", changes: { status: "lost" } }),
+  ], "false");
+  const before = repos.interactionRows.length;
+  
+  const result = await run("Mark TechCorp as lost");
+  
+  assertEquals(result.response, "❌ Action rejected.");
+  assertEquals(result.pendingAction, null);
+  assertEquals(leadNamed(repos, "TechCorp Solutions").status, "qualified");
+  assertEquals(repos.interactionRows.length, before);
+});
+
+Deno.test("a status change that skips the pipeline is refused", async () => {
+  const { repos } = setup([
+    classify("Mark StartupXYZ as won", "update_lead", { target: "StartupXYZ", changes: { status: "won" } }),
+  ], "true");
+  
+  const result = await run("Mark StartupXYZ as won");
+  
+  assertMatch(result.response!, /can't go from new to won/);
+  assertEquals(result.pendingAction, null);
+  assertEquals(result.approvalStatus, null);
+  assertEquals(leadNamed(repos, "StartupXYZ").status, "new");
+  assertEquals(interactionsFor(repos, "StartupXYZ"), []);
+});
+
+Deno.test("undo puts back the values the last change replaced", async () => {
+  const { repos } = setup([
+    classify("Mark LocalCafe as qualified", "update_lead", { target: "LocalCafe", changes: { status: "qualified" } }),
+    classify("Undo the last change to LocalCafe", "undo_change", { target: "LocalCafe" }),
+  ]);
+  
+  await run("Mark LocalCafe as qualified");
+  const result = await run("Undo the last change to LocalCafe");
+  
+  assertMatch(result.response!, /Undid/);
+  assertEquals(leadNamed(repos, "LocalCafe").status, "contacted");
+  
+  const [change, revert] = interactionsFor(repos, "LocalCafe");
+  assertEquals(revert.interaction_type, "change_reverted");
+  assertEquals(revert.metadata.reverts, change.id);
+  assertEquals(revert.metadata.after, { status: "contacted" });
+});
+
+Deno.test("undoing a move the pipeline only allows forwards needs approval", async () => {
+  const { repos } = setup([
+    classify("Mark StartupXYZ as contacted", "update_lead", { target: "StartupXYZ", changes: { status: "contacted" } }),
+    classify("Undo the last change to StartupXYZ", "undo_change", { target: "StartupXYZ" }),
+  ], "true");
+  
+  await run("Mark StartupXYZ as contacted");
+  const result = await run("Undo the last change to StartupXYZ");
+  
+  assertEquals(result.response, "✅ Reverted StartupXYZ!");
+  assertEquals(leadNamed(repos, "StartupXYZ").status, "new");
+  
+  const [change, revert] = interactionsFor(repos, "StartupXYZ");
+  assertEquals(change.required_approval, false);
+  assertEquals(revert.interaction_type, "change_reverted");
+  assertEquals(revert.metadata.reverts, change.id);
+  assertEquals(revert.required_approval, true);
+  assertEquals(revert.approved_by, "auto_approve");
+});
+
+// ============================================
+// Follow-ups
+// ============================================
+
+const DRAFT: ScriptedReply = {
+  match: "Write a short, friendly follow-up email",
+  text: "Subject: Your demo next week\n\nHi Sophie,\n\nThanks again for your interest in the enterprise plan. Does Tuesday afternoon work for the demo?",
+};
+
+Deno.test("an approved follow-up is sent, logged and marks the lead as contacted", async () => {
+  const { repos, sent } = setup([
+    classify("Send a follow-up to Sophie", "follow_up", { target: "Sophie" }),
+    DRAFT,
+  ], "true");
+  
+  const result = await run("Send a follow-up to Sophie");
+  
+  assertEquals(result.response, "✅ Email sent!");
+  assertEquals(sent.length, 1);
+  assertEquals(sent[0].to, "sophie@techcorp.io");
+  assertEquals(sent[0].subject, "Your demo next week");
+  assert(sent[0].body.endsWith("Best regards"), "signature is added");
+  
+  const logged = interactionsFor(repos, "TechCorp Solutions").at(-1)!;
+  assertEquals(logged.interaction_type, "email_sent");
+  assertEquals(logged.metadata.message_id, "<1@test.local>");
+  assertEquals(logged.metadata.draft_source, "llm");
+  assert(leadNamed(repos, "TechCorp Solutions").last_contacted_at, "last_contacted_at is set");
+});
+
+Deno.test("a rejected follow-up is never sent", async () => {
+  const { repos, sent } = setup([
+    classify("Send a follow-up to Sophie", "follow_up", { target: "Sophie" }),
+    DRAFT,
+  ], "false");
+  
+  const result = await run("Send a follow-up to Sophie");
+  
+  assertEquals(result.response, "❌ Action rejected.");
+  assertEquals(sent, []);
+  assertEquals(interactionsFor(repos, "TechCorp Solutions").filter((i) => i.interaction_type === "email_sent"), []);
+  assertEquals(leadNamed(repos, "TechCorp Solutions").last_contacted_at, null);
+});
+
+// ============================================
+// Pausing for approval
+// ============================================
+
+const MANAGER_ID = "00000000-0000-0000-0000-0000000000bb";
+
+Deno.test("an update waits at human_review until a manager approves it, then resumes from the checkpoint", async () => {
+  const { repos } = setup([
+    classify("Mark TechCorp as lost", "update_lead", { target: "TechCorp", changes: { status: "lost" } }),
+  ]);
+  const checkpoints = agent.createMemoryCheckpointer();
+  const loaded: (AgentState | null)[] = [];
+  agent.useCheckpointer({
+    save: checkpoints.save,
+    async load(threadId) {
+      const state = await checkpoints.load(threadId);
+      loaded.push(state);
+      return state;
+    },
+  });
+  
+  const asked = await agent.runAs(USER_ID, agent.DEMO_ORG_ID, "member", () => agent.runAgent("Mark TechCorp as lost"));
+  
+  const actionId = asked.data?.pendingApproval?.actionId;
+  assert(actionId, "the run pauses with a pending action");
+  assertEquals(leadNamed(repos, "TechCorp Solutions").status, "qualified");
+  assertEquals(repos.pendingActionRows.map((r) => [r.status, r.thread_id]), [["pending", asked.conversationId]]);
+  
+  const decided = await agent.runAs(MANAGER_ID, agent.DEMO_ORG_ID, "manager", () => agent.resumeApproval(actionId, "approved"));
+  
+  assertEquals(decided.message, "✅ Updated TechCorp Solutions!");
+  assertEquals(loaded.map((s) => [s?.nextNode, s?.pendingActionId]), [["human_review", actionId]]);
+  assertEquals(leadNamed(repos, "TechCorp Solutions").status, "lost");
+  assertEquals(repos.pendingActionRows[0].status, "approved");
+  assertEquals(repos.pendingActionRows[0].decided_by, MANAGER_ID);
+  assertEquals(repos.approvalDecisionRows.map((d) => [d.decision, d.decided_by]), [["approved", MANAGER_ID]]);
+  
+  const approval = interactionsFor(repos, "TechCorp Solutions").find((i) => i.interaction_type === "human_approval");
+  assertEquals(approval?.approved_by, MANAGER_ID);
+  assertEquals(repos.messageRows.at(-1)?.content, decided.message);
+});
+
+Deno.test("a stored rejection is not overridden by AUTO_APPROVE when the run resumes", async () => {
+  const { repos } = setup([
+    classify("Mark TechCorp as lost", "update_lead", { target: "TechCorp", changes: { status: "lost" } }),
+  ]);
+  agent.useCheckpointer(agent.createMemoryCheckpointer());
+  
+  const asked = await agent.runAs(USER_ID, agent.DEMO_ORG_ID, "member", () => agent.runAgent("Mark TechCorp as lost"));
+  const actionId = asked.data?.pendingApproval?.actionId;
+  assert(actionId, "the run pauses with a pending action");
+  
+  Deno.env.set("AUTO_APPROVE", "true");
+  const decided = await agent.runAs(MANAGER_ID, agent.DEMO_ORG_ID, "manager", () => agent.resumeApproval(actionId, "rejected"));
+  
+  assertEquals(decided.message, "❌ Action rejected.");
+  assertEquals(leadNamed(repos, "TechCorp Solutions").status, "qualified");
+  assertEquals(repos.pendingActionRows[0].status, "rejected");
+});
+
+// ============================================
+// Disambiguation
+// ============================================
+
+function addTechCorpLabs(repos: MemoryRepositories): void {
+  repos.leadRows.push({
+    ...leadNamed(repos, "TechCorp Solutions"),
+    id: crypto.randomUUID(),
+    company_name: "TechCorp Labs",
+    contact_name: "Priya Shah",
+    contact_email: "priya@techcorplabs.io",
+    status: "contacted",
+    score: 50,
+  });
+}
+
+Deno.test("a name that matches several leads pauses for a pick, then carries on with it", async () => {
+  const { repos, model } = setup([
+    classify("Qualify TechCorp", "qualify_lead", { target: "TechCorp" }),
+    {
+      match: "Company: TechCorp Solutions",
+      tool: "record_qualification",
+      toolCall: {
+        name: "record_qualification",
+        input: {
+          score: 88,
+          budget: "Enterprise plan interest",
+          authority: "Decision maker",
+          need: "Wants a demo",
+          timeline: "Next week",
+          rationale: "Engaged decision maker with a near-term demo.",
+        },
+      },
+    },
+  ], "true");
+  addTechCorpLabs(repos);
+  
+  const asked = await run("Qualify TechCorp");
+  
+  assertEquals(asked.nextNode, "disambiguate");
+  assertEquals(asked.candidates?.map((l) => l.company_name), ["TechCorp Labs", "TechCorp Solutions"]);
+  assertMatch(asked.response!, /Which one\?/);
+  assertEquals(model.calls.length, 1);
+  
+  const result = await run("2", asked);
+  
+  assertEquals(result.nextNode, null);
+  assertEquals(result.candidates, null);
+  assertEquals(result.response, "✅ Saved new score for TechCorp Solutions: 88");
+  assertEquals(leadNamed(repos, "TechCorp Solutions").score, 88);
+  assertEquals(leadNamed(repos, "TechCorp Labs").score, 50);
+  assertEquals(interactionsFor(repos, "TechCorp Solutions").at(-1)!.metadata.after, { score: 88 });
+});
+
+Deno.test("answering a pick with something else is treated as a new request", async () => {
+  const { repos } = setup([
+    classify("Qualify TechCorp", "qualify_lead", { target: "TechCorp" }),
+    classify("Actually, show me hot leads", "lookup_leads", { filter: { score_min: 80 } }),
+  ]);
+  addTechCorpLabs(repos);
+  
+  const asked = await run("Qualify TechCorp");
+  const result = await run("Actually, show me hot leads", asked);
+  
+  assertEquals(result.nextNode, null);
+  assertEquals(result.candidates, null);
+  assertEquals(result.intent?.type, "lookup");
+  assertEquals(result.leads.length, 2);
+});
+
+// ============================================
+// Termination
+// ============================================
+// Day 2, exercise 1: an agent that kept routing back to the same nodes ran
+// forever. Every run here must reach END on its own, including when the
+// model is no help at all.
+
+Deno.test("a request the agent can't act on ends at handle_other", async () => {
+  const { model } = setup([
+    classify("Hi", "unknown_request", {}),
+  ]);
+  
+  const result = await run("Hi");
+  
+  assertEquals(result.intent, { type: "unknown", rawMessage: "Hi" });
+  assertMatch(result.response!, /^Try:/);
+  assertEquals(model.calls.length, 1);
+});
+
+Deno.test("a model that keeps failing ends the run after the retries", async () => {
+  setup([]);
+  let calls = 0;
+  agent.useLlmClient({
+    name: "failing",
+    model: "failing",
+    async complete() {
+      calls++;
+      throw new Error("overloaded");
+    },
+  });
+  
+  const result = await run("Show me hot leads");
+  
+  assertEquals(result.error, "overloaded");
+  assertEquals(result.response, "I had trouble understanding that. Please try again.");
+  assertEquals(calls, 3);
+});
+
+// ============================================
+// Email webhooks
+// ============================================
+
+const WEBHOOK_SECRET = `whsec_${btoa("test-webhook-secret")}`;
+
+// A webhook request signed the way Resend (Svix) signs them
+async function webhookRequest(event: unknown, signature?: string): Promise<Request> {
+  const id = `msg_${crypto.randomUUID()}`;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const body = JSON.stringify(event);
+  if (!signature) {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode("test-webhook-secret"),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+    const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${id}.${timestamp}.${body}`));
+    signature = `v1,${btoa(String.fromCharCode(...new Uint8Array(mac)))}`;
+  }
+  return new Request("http://localhost/webhooks/email", {
+    method: "POST",
+    headers: { "svix-id": id, "svix-timestamp": timestamp, "svix-signature": signature },
+    body,
+  });
+}
+
+Deno.test("a bounce flags the lead's address and the agent stops emailing it", async () => {
+  const { repos, sent } = setup([], "true");
+  Deno.env.set("RESEND_WEBHOOK_SECRET", WEBHOOK_SECRET);
+  
+  const res = await agent.handleEmailWebhook(await webhookRequest({
+    type: "email.bounced",
+    created_at: new Date().toISOString(),
+    data: { to: ["sophie@techcorp.io"], subject: "Following up", bounce: { message: "Mailbox does not exist" } },
+  }));
+  
+  assertEquals(res.status, 200);
+  assertEquals(leadNamed(repos, "TechCorp Solutions").email_status, "bounced");
+  assertEquals(interactionsFor(repos, "TechCorp Solutions").at(-1)?.interaction_type, "email_bounced");
+  
+  const result = await agent.app.invoke(
+    stateWith({ userMessage: "Send a follow-up to Sophie", intent: { type: "followup", target: "Sophie" } }),
+    { recursionLimit: RECURSION_LIMIT }
+  );
+  assertMatch(result.response!, /bounced/);
+  assertEquals(sent, []);
+});
+
+Deno.test("a signature that isn't base64 is rejected as invalid", async () => {
+  const { repos } = setup([]);
+  Deno.env.set("RESEND_WEBHOOK_SECRET", WEBHOOK_SECRET);
+  const before = repos.interactionRows.length;
+  
+  const res = await agent.handleEmailWebhook(await webhookRequest(
+    { type: "email.complained", created_at: new Date().toISOString(), data: { to: ["sophie@techcorp.io"] } },
+    "v1,not*base64!"
+  ));
+  
+  assertEquals(res.status, 401);
+  assertEquals(repos.interactionRows.length, before);
+  assertEquals(leadNamed(repos, "TechCorp Solutions").email_status, null);
+});
+
+// ============================================
+// Replayed model calls
+// ============================================
+
+Deno.test("a follow-up with no recorded draft fails instead of falling back to a template", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const { sent } = setup([], "true");
+    agent.useLlmClient(createCachedLlmClient(createScriptedClient([]), "replay", dir));
+    
+    // The intent is filled in, so the draft is the only model call
+    const result = await agent.app.invoke(
+      stateWith({ userMessage: "Send a follow-up to Sophie", intent: { type: "followup", target: "Sophie" } }),
+      { recursionLimit: RECURSION_LIMIT }
+    );
+    
+    assertMatch(result.error!, /No recorded/);
+    assertEquals(result.response, "Failed to prepare email. Please try again.");
+    assertEquals(result.pendingAction, null);
+    assertEquals(sent, []);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
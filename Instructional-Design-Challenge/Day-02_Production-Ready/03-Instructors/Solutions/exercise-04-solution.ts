@@ -4,20 +4,44 @@
  * This is the final, production-ready Edge Function that combines everything.
  * 
  * INSTRUCTOR NOTE: This file represents what students should have at the end
- * of the module. It's ready to deploy to Supabase Edge Functions.
+ * of the module. It's ready to deploy to Supabase Edge Functions, with
+ * starter-kit/llm-client.ts copied next to it and imported from there.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { StateGraph, END } from "https://esm.sh/@langchain/langgraph@0.0.20";
-import Anthropic from "https://esm.sh/@anthropic-ai/sdk@0.17.0";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createLlmClient } from "../../../starter-kit/llm-client.ts";
+import type { LlmClient, LlmTool } from "../../../starter-kit/llm-client.ts";
+import {
+  createMemoryCrmRepositories,
+  createSupabaseCrmRepositories,
+  DEMO_ORG_ID,
+  forOrg,
+  LEAD_STATUSES,
+  MAX_LOOKUP_LIMIT,
+  SORTABLE_COLUMNS,
+} from "../../../starter-kit/repositories.ts";
+import type {
+  CrmRepositories,
+  Interaction,
+  InteractionType,
+  Lead,
+  LeadFilter,
+  LeadStatus,
+  MemoryCrmRepositories,
+  NewInteraction,
+  SortableColumn,
+} from "../../../starter-kit/repositories.ts";
 
 // ============================================
 // CORS Headers
 // ============================================
 
+// Set ALLOWED_ORIGIN to your frontend's URL in production
 const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Origin": Deno.env.get("ALLOWED_ORIGIN") || "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
@@ -25,49 +49,163 @@ const corsHeaders = {
 // Type Definitions
 // ============================================
 
-interface Lead {
-  id: string;
-  company_name: string;
-  contact_name: string;
-  contact_email: string;
-  status: string;
+// Fields the agent is allowed to change on a lead
+interface LeadChanges {
+  status?: LeadStatus;
+  score?: number;
+  estimated_value?: number;
+  notes?: string;              // The whole text, not an addition to it
+}
+
+// Mirrors AgentIntent in starter-kit/edge-function-scaffold/types.ts, except
+// that the LLM names a lead ("TechCorp", "Sophie") instead of giving its id.
+type AgentIntent =
+  | { type: "lookup"; filter: LeadFilter }
+// leadId is set once the target is pinned down to one lead: picked from a
+// choice list, or passed by an API call
+  | { type: "qualify"; target: string; leadId?: string }
+  | { type: "followup"; target: string; template?: string; leadId?: string }
+  | { type: "update"; target: string; changes: LeadChanges; leadId?: string }
+  | { type: "undo"; target: string; leadId?: string }
+  | { type: "unknown"; rawMessage: string };
+
+// BANT-style assessment produced by the qualify node
+interface Qualification {
   score: number;
-  estimated_value: number | null;
-  notes: string | null;
-  created_at: string;
-  updated_at: string;
-  last_contacted_at: string | null;
+  budget: string;
+  authority: string;
+  need: string;
+  timeline: string;
+  rationale: string;
+}
+
+interface EmailContent {
+  to: string;
+  subject: string;
+  body: string;
 }
 
 interface PendingAction {
   type: "update_lead" | "send_email";
   leadId: string;
   leadName: string;
-  changes?: Partial<Lead>;
-  emailContent?: { to: string; subject: string; body: string };
+  changes?: LeadChanges;
+  qualification?: Qualification;     // Set when the update is a new score
+  emailContent?: EmailContent;
+  draftSource?: "llm" | "template";   // How emailContent was written
+  templateSlug?: string;
+  policy?: PolicyDecision;            // Why it does (or doesn't) need approval
+  reverts?: string;                   // Interaction id this update undoes
+  original?: ActionDraft;             // What the agent proposed, if an approver edited it
+  editedBy?: string[];                // Approvers who changed it
+}
+
+// The editable part of a PendingAction
+interface ActionDraft {
+  emailContent?: EmailContent;
+  changes?: LeadChanges;
+}
+
+// cancelled = withdrawn by the requester, expired = nobody decided in time
+type ReviewStatus = "pending" | "approved" | "rejected" | "cancelled" | "expired";
+
+// A row in pending_actions
+interface PendingActionRow {
+  id: string;
+  org_id: string;
+  lead_id: string;
+  thread_id: string | null;           // null on rows from before checkpointing
+  action_type: PendingAction["type"];
+  action: PendingAction;
+  lead_snapshot: Lead | null;
+  user_message: string | null;
+  requested_by: string | null;
+  policy: PolicyDecision | null;      // null on rows from before approval policies
+  approver_roles: OrgRole[] | null;   // Who can decide the current step (null = anyone)
+  current_step: number;
+  expires_at: string | null;
+  status: ReviewStatus;
+  decided_at: string | null;
+  decided_by: string | null;
+  created_at: string;
+}
+
+interface EmailTemplate {
+  id: string;
+  org_id: string | null;              // null = shared by every organization
+  slug: string;                       // e.g. "post_demo"
+  name: string;                       // e.g. "Post-demo follow-up"
+  subject: string;
+  body: string;
+  default_for: LeadStatus[];          // Statuses this is the default for
+}
+
+interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
 }
 
 interface AgentState {
+  threadId: string;                // Same as the conversation id
+  orgId: string | null;            // Sales team the run belongs to
+  userId: string | null;           // Who asked (Supabase auth user id)
+  reviewerId: string | null;       // Who approved/rejected the pending action
+  nextNode: string | null;         // Where a paused run picks up again
+  history: ConversationTurn[];     // Earlier turns in this conversation
   userMessage: string;
-  intent: { type: string; target?: string } | null;
+  intent: AgentIntent | null;
   leads: Lead[];
   selectedLead: Lead | null;
+  candidates: Lead[] | null;       // Leads the target could mean, awaiting a pick
   pendingAction: PendingAction | null;
-  approvalStatus: "pending" | "approved" | "rejected" | null;
+  pendingActionId: string | null;  // Row in pending_actions, once persisted
+  approvalStatus: ReviewStatus | null;
   response: string | null;
   error: string | null;
 }
 
+// Server-Sent Events emitted while a run is in progress
+type AgentEvent =
+  | { type: "node_start"; node: string }
+  | { type: "node_end"; node: string; durationMs: number }
+  | { type: "token"; text: string }       // Streamed text of the email draft
+  | { type: "token_reset" }               // Draft restarted after a retry, discard tokens
+  | { type: "response"; response: AgentResponse };
+
+// A pending action as the approval inbox shows it
+interface ApprovalView {
+  actionId: string;
+  type: PendingAction["type"];
+  status: ReviewStatus;
+  leadId: string;
+  leadName: string;
+  requestedBy: string | null;
+  requestedAt: string;
+  expiresAt: string | null;
+  userMessage: string | null;
+  policyRule: string | null;
+  step: number;                       // 0-based index into the policy's steps
+  totalSteps: number;
+  approverRoles: OrgRole[] | null;    // Who can decide the current step (null = anyone)
+  canDecide: boolean;                 // Whether the caller can (never their own request)
+  diff?: { field: keyof LeadChanges; before: unknown; after: unknown }[];
+  email?: EmailContent;
+}
+
 interface AgentResponse {
   success: boolean;
   message: string;
+  conversationId?: string;
   data?: {
     leads?: Lead[];
+    choices?: Lead[];                 // Numbered options when a name matched several leads
     pendingApproval?: {
       actionId: string;
       type: string;
       description: string;
     };
+    approvals?: ApprovalView[];       // Inbox listing
+    approval?: ApprovalView;          // One action, with its diff or email preview
   };
   error?: string;
 }
@@ -78,18 +216,27 @@ interface AgentResponse {
 
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-const supabase = createClient(supabaseUrl, supabaseKey);
+const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
 
-const anthropic = new Anthropic({
-  apiKey: Deno.env.get("ANTHROPIC_API_KEY"),
-});
+// Service role: bypasses RLS. Used for writes and the agent's own bookkeeping
+// (checkpoints, conversations, pending actions), never for reading CRM data
+// on a user's behalf - see readDb().
+const supabase = createClient(supabaseUrl, supabaseKey);
 
 const HIGH_VALUE_THRESHOLD = parseInt(Deno.env.get("HIGH_VALUE_THRESHOLD") || "80");
 
+// How many earlier turns the classifier sees
+const HISTORY_TURNS = 10;
+
 // ============================================
 // Utilities
 // ============================================
 
+// Errors can opt out of retries (and fallbacks) with retryable: false
+function isRetryable(error: unknown): boolean {
+  return (error as { retryable?: boolean } | null)?.retryable !== false;
+}
+
 async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
   let lastError: any;
   
@@ -98,6 +245,7 @@ async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
       return await fn();
     } catch (error) {
       lastError = error;
+      if (!isRetryable(error)) break;
       if (attempt < maxRetries) {
         await new Promise(r => setTimeout(r, 1000 * attempt));
       }
@@ -106,389 +254,3294 @@ async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
   throw lastError;
 }
 
-async function sendEmail(to: string, subject: string, body: string): Promise<{ success: boolean; messageId?: string; error?: string }> {
-  const apiKey = Deno.env.get("RESEND_API_KEY");
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// ============================================
+// Authentication
+// ============================================
+// Every request (except provider webhooks, which are signed) must carry the
+// caller's Supabase access token. The verified user and a client that acts
+// as them are kept in AsyncLocalStorage for the rest of the request, so CRM
+// reads go through RLS exactly as if the user had queried the table.
+
+type OrgRole = "member" | "manager" | "owner" | "finance";
+
+interface RequestContext {
+  userId: string;
+  orgId: string;                     // The organization this request acts in
+  role: OrgRole;                     // The caller's role in that organization
+  db: SupabaseClient;                // Runs queries as the caller
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+async function authenticate(req: Request): Promise<Pick<RequestContext, "userId" | "db"> | null> {
+  const token = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
   
-  if (!apiKey) {
-    return { success: true, messageId: `mock-${Date.now()}` }; // Mock for testing
-  }
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
   
-  try {
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        from: Deno.env.get("EMAIL_FROM") || "onboarding@resend.dev",
-        to,
-        subject,
-        text: body,
-      }),
-    });
-    
-    if (!response.ok) {
-      return { success: false, error: await response.text() };
-    }
-    
-    const result = await response.json();
-    return { success: true, messageId: result.id };
-  } catch (e) {
-    return { success: false, error: e.message };
-  }
+  const db = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false },
+  });
+  return { userId: data.user.id, db };
 }
 
-function needsApproval(actionType: string, lead: Lead | null): boolean {
-  if (actionType === "send_email") return true;
-  if (actionType === "update_lead" && lead && lead.score > HIGH_VALUE_THRESHOLD) return true;
-  return false;
+/**
+ * Which organization the request acts in. Users in a single org don't need
+ * to say; users in several must pass orgId. Null if they aren't a member.
+ */
+async function resolveMembership(
+  userId: string,
+  orgId?: string
+): Promise<{ orgId: string; role: OrgRole } | null> {
+  let query = supabase.from("memberships").select("org_id, role").eq("user_id", userId);
+  if (orgId) query = query.eq("org_id", orgId);
+  
+  const { data, error } = await query;
+  if (error) throw error;
+  if (data?.length !== 1) return null;
+  return { orgId: data[0].org_id, role: data[0].role };
+}
+
+function currentUserId(): string | null {
+  return requestContext.getStore()?.userId ?? null;
+}
+
+function currentOrgId(): string | null {
+  return requestContext.getStore()?.orgId ?? null;
+}
+
+function currentRole(): OrgRole | null {
+  return requestContext.getStore()?.role ?? null;
+}
+
+/**
+ * Act as a member of an organization without a token, e.g. in tests or
+ * scripts. Reads use the service role, as they do outside a request.
+ */
+function runAs<T>(userId: string, orgId: string, role: OrgRole, fn: () => Promise<T>): Promise<T> {
+  return requestContext.run({ userId, orgId, role, db: supabase }, fn);
+}
+
+// Client for reading leads, interactions and templates: the caller's RLS
+// context inside a request, the service role outside one (tests, scripts).
+function readDb(): SupabaseClient {
+  return requestContext.getStore()?.db ?? supabase;
 }
 
 // ============================================
-// Agent Nodes
+// Email Transports
 // ============================================
+// Where outgoing email actually goes, picked with EMAIL_TRANSPORT:
+// - "resend": the Resend API (production)
+// - "smtp":   any SMTP server
+// - "outbox": writes .eml files to EMAIL_OUTBOX_DIR instead of sending, so
+//             you can run the whole follow-up flow offline and open exactly
+//             what would have gone out in any mail client
 
-async function understandRequest(state: AgentState): Promise<Partial<AgentState>> {
-  try {
-    const response = await withRetry(() =>
-      anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 256,
-        messages: [{
-          role: "user",
-          content: `Classify this CRM request:
-- "lookup": show/find leads
-- "update": change lead status
-- "followup": send email
-- "unknown": anything else
-
-Message: "${state.userMessage}"
+interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  body: string;
+}
 
-JSON only: {"type":"...","target":"company or null"}`
-        }],
-      })
-    );
-    
-    const text = response.content[0].type === "text" ? response.content[0].text : "{}";
-    const match = text.match(/\{[\s\S]*\}/);
-    const intent = match ? JSON.parse(match[0]) : { type: "unknown" };
-    
-    return { intent };
-  } catch (e) {
-    return { error: e.message, response: "I had trouble understanding that. Please try again." };
-  }
+interface EmailResult {
+  success: boolean;
+  messageId?: string;     // The Message-ID header, "<...>", that replies point back at
+  providerId?: string;    // The provider's own id, which its delivery events use
+  error?: string;
 }
 
-async function handleLookup(state: AgentState): Promise<Partial<AgentState>> {
-  try {
-    const target = state.intent?.target?.toLowerCase() || "";
-    let query = supabase.from("leads").select("*");
-    
-    if (target === "hot" || target === "high value") {
-      query = query.gt("score", 80);
-    } else if (target && target !== "all") {
-      query = query.ilike("company_name", `%${target}%`);
-    }
-    
-    const { data, error } = await query.order("score", { ascending: false });
-    
-    if (error) throw error;
-    if (!data?.length) return { response: `No leads found${target ? ` matching "${target}"` : ""}.` };
-    
-    const lines = data.map((l, i) =>
-      `${i + 1}. **${l.company_name}** (${l.contact_name})\n   Score: ${l.score} | Status: ${l.status}`
-    );
-    
-    return {
-      leads: data,
-      response: `Found ${data.length} lead(s):\n\n${lines.join("\n\n")}`,
-    };
-  } catch (e) {
-    return { error: e.message, response: "Failed to fetch leads. Please try again." };
-  }
+// Message-IDs compare with their angle brackets and without surrounding
+// space, however the header that carried them was written
+function normalizeMessageId(value: string): string {
+  return `<${value.trim().replace(/^<|>$/g, "")}>`;
 }
 
-async function handleUpdate(state: AgentState): Promise<Partial<AgentState>> {
-  const target = state.intent?.target;
-  if (!target) return { response: "Which lead would you like to update?" };
-  
-  try {
-    const { data: leads } = await supabase
-      .from("leads")
-      .select("*")
-      .ilike("company_name", `%${target}%`);
-    
-    if (!leads?.length) return { response: `Couldn't find "${target}".` };
-    
-    const lead = leads[0];
-    const msg = state.userMessage.toLowerCase();
-    const changes: Partial<Lead> = {};
-    
-    if (msg.includes("won")) changes.status = "won";
-    else if (msg.includes("lost")) changes.status = "lost";
-    else if (msg.includes("qualified")) changes.status = "qualified";
-    
-    if (!Object.keys(changes).length) {
-      return { response: `What would you like to change about ${lead.company_name}?`, selectedLead: lead };
-    }
-    
-    if (needsApproval("update_lead", lead)) {
-      return {
-        selectedLead: lead,
-        pendingAction: { type: "update_lead", leadId: lead.id, leadName: lead.company_name, changes },
-        approvalStatus: "pending",
-        response: `⚠️ **Approval Required**\n\nUpdate ${lead.company_name} (Score: ${lead.score}):\n- status: ${lead.status} → ${changes.status}\n\nThis is a high-value lead.`,
-      };
-    }
-    
-    // Execute directly
-    await supabase.from("leads").update(changes).eq("id", lead.id);
-    return { response: `✅ Updated ${lead.company_name}! New status: ${changes.status}` };
-  } catch (e) {
-    return { error: e.message, response: "Failed to update. Please try again." };
-  }
+interface EmailTransport {
+  name: string;
+  send(email: OutgoingEmail): Promise<EmailResult>;
 }
 
-async function handleFollowup(state: AgentState): Promise<Partial<AgentState>> {
-  const target = state.intent?.target;
-  if (!target) return { response: "Who would you like to follow up with?" };
-  
-  try {
-    const { data: leads } = await supabase
-      .from("leads")
-      .select("*")
-      .ilike("company_name", `%${target}%`);
-    
-    if (!leads?.length) return { response: `Couldn't find "${target}".` };
-    
-    const lead = leads[0];
-    const emailContent = {
-      to: lead.contact_email,
-      subject: `Following up - ${lead.company_name}`,
-      body: `Hi ${lead.contact_name},\n\nI wanted to follow up on our conversation about ${lead.company_name}.\n\nBest regards`,
-    };
-    
-    return {
-      selectedLead: lead,
-      pendingAction: { type: "send_email", leadId: lead.id, leadName: lead.company_name, emailContent },
-      approvalStatus: "pending",
-      response: `📧 Ready to send to ${lead.contact_name}:\n\n**Subject:** ${emailContent.subject}\n\n${emailContent.body}\n\n⏳ Awaiting approval...`,
-    };
-  } catch (e) {
-    return { error: e.message, response: "Failed to prepare email. Please try again." };
-  }
+function createResendTransport(apiKey: string | undefined): EmailTransport {
+  return {
+    name: "resend",
+    async send(email) {
+      if (!apiKey) return { success: false, error: "RESEND_API_KEY is not set" };
+      
+      // Set our own Message-ID so a reply can be matched to this email
+      const messageId = `<${crypto.randomUUID()}@${extractAddress(email.from)?.split("@")[1] ?? "resend.local"}>`;
+      try {
+        const response = await fetch("https://api.resend.com/emails", {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            from: email.from,
+            to: email.to,
+            subject: email.subject,
+            text: email.body,
+            headers: { "Message-ID": messageId },
+          }),
+        });
+        
+        if (!response.ok) {
+          return { success: false, error: await response.text() };
+        }
+        
+        const result = await response.json();
+        return { success: true, messageId, providerId: result.id };
+      } catch (e) {
+        return { success: false, error: e.message };
+      }
+    },
+  };
 }
 
-async function handleOther(state: AgentState): Promise<Partial<AgentState>> {
-  return { response: `Try:\n• "Show me leads"\n• "Mark TechCorp as won"\n• "Send follow-up to Sophie"` };
+interface SmtpConfig {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
 }
 
-async function humanReview(state: AgentState): Promise<Partial<AgentState>> {
-  // In production, this would wait for external approval
-  // For demo, check AUTO_APPROVE env
-  const auto = Deno.env.get("AUTO_APPROVE");
-  if (auto === "true") return { approvalStatus: "approved" };
-  if (auto === "false") return { approvalStatus: "rejected" };
-  return {}; // Stays pending
+// Note: hosted Supabase Edge Functions block outbound SMTP ports, so this
+// one is for self-hosted or local runs.
+function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  return {
+    name: "smtp",
+    async send(email) {
+      // Loaded on first use so the other transports don't pay for it
+      const { SMTPClient } = await import("https://deno.land/x/denomailer@1.6.0/mod.ts");
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.hostname,
+          port: config.port,
+          tls: config.port === 465,
+          auth: config.username ? { username: config.username, password: config.password ?? "" } : undefined,
+        },
+      });
+      
+      const messageId = `<${crypto.randomUUID()}@${config.hostname}>`;
+      try {
+        await client.send({
+          from: email.from,
+          to: email.to,
+          subject: email.subject,
+          content: email.body,
+          headers: { "Message-ID": messageId },
+        });
+        return { success: true, messageId };
+      } catch (e) {
+        return { success: false, error: e.message };
+      } finally {
+        await client.close();
+      }
+    },
+  };
 }
 
-async function executeApproved(state: AgentState): Promise<Partial<AgentState>> {
-  const pending = state.pendingAction;
-  if (!pending) return { error: "No pending action" };
-  
-  if (pending.type === "update_lead" && pending.changes) {
-    await supabase.from("leads").update(pending.changes).eq("id", pending.leadId);
-    await supabase.from("interactions").insert({
-      lead_id: pending.leadId,
-      interaction_type: "status_change",
-      description: `Updated: ${JSON.stringify(pending.changes)}`,
-      performed_by: "agent",
-      required_approval: true,
-      approved: true,
-    });
-    return { response: `✅ Updated ${pending.leadName}!`, pendingAction: null, approvalStatus: null };
-  }
-  
-  if (pending.type === "send_email" && pending.emailContent) {
-    const result = await sendEmail(
-      pending.emailContent.to,
-      pending.emailContent.subject,
-      pending.emailContent.body
-    );
-    
-    if (!result.success) return { error: result.error, response: `❌ Failed: ${result.error}` };
-    
-    await supabase.from("interactions").insert({
-      lead_id: pending.leadId,
-      interaction_type: "email_sent",
-      description: `Sent: "${pending.emailContent.subject}"`,
-      performed_by: "agent",
-      required_approval: true,
-      approved: true,
-      metadata: { message_id: result.messageId },
-    });
-    
-    await supabase.from("leads").update({ last_contacted_at: new Date().toISOString() }).eq("id", pending.leadId);
-    return { response: `✅ Email sent!`, pendingAction: null, approvalStatus: null };
-  }
-  
-  return { error: "Unknown action type" };
+// RFC 2047 encoding, so non-ASCII subjects survive in the .eml file
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const bytes = new TextEncoder().encode(value);
+  return `=?UTF-8?B?${btoa(String.fromCharCode(...bytes))}?=`;
 }
 
-async function handleRejection(state: AgentState): Promise<Partial<AgentState>> {
-  return { response: `❌ Action rejected.`, pendingAction: null, approvalStatus: null };
+function formatEml(email: OutgoingEmail, messageId: string): string {
+  return [
+    `From: ${email.from}`,
+    `To: ${email.to}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+    "",
+    email.body.replace(/\r?\n/g, "\r\n"),
+  ].join("\r\n");
 }
 
-// ============================================
-// Routing
-// ============================================
+function createOutboxTransport(dir: string): EmailTransport {
+  return {
+    name: "outbox",
+    async send(email) {
+      const id = crypto.randomUUID();
+      const messageId = `<${id}@outbox.local>`;
+      try {
+        await Deno.mkdir(dir, { recursive: true });
+        const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+        await Deno.writeTextFile(`${dir}/${timestamp}-${id}.eml`, formatEml(email, messageId));
+        return { success: true, messageId };
+      } catch (e) {
+        return { success: false, error: e.message };
+      }
+    },
+  };
+}
 
-function routeByIntent(state: AgentState): string {
-  if (state.error) return "end";
-  switch (state.intent?.type) {
-    case "lookup": return "handle_lookup";
-    case "update": return "handle_update";
-    case "followup": return "handle_followup";
-    default: return "handle_other";
+function createEmailTransport(): EmailTransport {
+  const kind = Deno.env.get("EMAIL_TRANSPORT") || "resend";
+  switch (kind) {
+    case "resend":
+      return createResendTransport(Deno.env.get("RESEND_API_KEY"));
+    case "smtp":
+      return createSmtpTransport({
+        hostname: Deno.env.get("SMTP_HOST") || "localhost",
+        port: parseInt(Deno.env.get("SMTP_PORT") || "587"),
+        username: Deno.env.get("SMTP_USER"),
+        password: Deno.env.get("SMTP_PASSWORD"),
+      });
+    case "outbox":
+      return createOutboxTransport(Deno.env.get("EMAIL_OUTBOX_DIR") || "./outbox");
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}" (expected resend, smtp or outbox)`);
   }
 }
 
-function routeAfterAction(state: AgentState): string {
-  if (state.approvalStatus === "pending") return "human_review";
-  return "end";
+let emailTransport: EmailTransport = createEmailTransport();
+
+// Swap where email goes, e.g. a transport that only records in tests
+function useEmailTransport(transport: EmailTransport): void {
+  emailTransport = transport;
 }
 
-function routeAfterReview(state: AgentState): string {
-  if (state.approvalStatus === "approved") return "execute_approved";
-  if (state.approvalStatus === "rejected") return "handle_rejection";
-  return "end";
+async function sendEmail(to: string, subject: string, body: string): Promise<EmailResult> {
+  const from = Deno.env.get("EMAIL_FROM") || "onboarding@resend.dev";
+  return emailTransport.send({ from, to, subject, body });
 }
 
 // ============================================
-// Graph
+// LLM Client
 // ============================================
+// Nodes talk to the model through LlmClient from starter-kit/llm-client.ts:
+// LLM_PROVIDER picks Claude, an OpenAI-compatible API or a scripted stand-in,
+// and LLM_CACHE records or replays its replies. Tests swap in their own.
 
-const workflow = new StateGraph<AgentState>({
-  channels: {
-    userMessage: { value: (a, b) => b ?? a },
-    intent: { value: (a, b) => b ?? a },
-    leads: { value: (a, b) => b ?? a },
-    selectedLead: { value: (a, b) => b ?? a },
-    pendingAction: { value: (a, b) => b ?? a },
-    approvalStatus: { value: (a, b) => b ?? a },
-    response: { value: (a, b) => b ?? a },
-    error: { value: (a, b) => b ?? a },
-  },
-});
+let llm: LlmClient = createLlmClient();
 
-workflow.addNode("understand_request", understandRequest);
-workflow.addNode("handle_lookup", handleLookup);
-workflow.addNode("handle_update", handleUpdate);
-workflow.addNode("handle_followup", handleFollowup);
-workflow.addNode("handle_other", handleOther);
-workflow.addNode("human_review", humanReview);
-workflow.addNode("execute_approved", executeApproved);
-workflow.addNode("handle_rejection", handleRejection);
+// Swap the model the nodes use, e.g. for a scripted client in tests
+function useLlmClient(client: LlmClient): void {
+  llm = client;
+}
 
-workflow.setEntryPoint("understand_request");
+// ============================================
+// Checkpoints
+// ============================================
+// Each HTTP request is a separate graph run. To pause at human_review and
+// carry on in a later request, the state at the end of every run is saved
+// under its thread_id, along with the node to resume at (if any).
 
-workflow.addConditionalEdges("understand_request", routeByIntent, {
-  handle_lookup: "handle_lookup",
-  handle_update: "handle_update",
-  handle_followup: "handle_followup",
-  handle_other: "handle_other",
-  end: END,
-});
+interface Checkpointer {
+  load(threadId: string): Promise<AgentState | null>;
+  save(state: AgentState): Promise<void>;
+}
 
-workflow.addConditionalEdges("handle_update", routeAfterAction, { human_review: "human_review", end: END });
-workflow.addConditionalEdges("handle_followup", routeAfterAction, { human_review: "human_review", end: END });
-workflow.addConditionalEdges("human_review", routeAfterReview, {
-  execute_approved: "execute_approved",
-  handle_rejection: "handle_rejection",
-  end: END,
-});
+function createSupabaseCheckpointer(): Checkpointer {
+  return {
+    async load(threadId) {
+      const { data, error } = await supabase
+        .from("agent_checkpoints")
+        .select("state")
+        .eq("thread_id", threadId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.state ?? null;
+    },
+    async save(state) {
+      const { error } = await supabase.from("agent_checkpoints").upsert({
+        thread_id: state.threadId,
+        state,
+        next_node: state.nextNode,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+    },
+  };
+}
 
-workflow.addEdge("handle_lookup", END);
-workflow.addEdge("handle_other", END);
-workflow.addEdge("execute_approved", END);
-workflow.addEdge("handle_rejection", END);
+// For tests and local runs without a database. Round-trips through JSON so
+// it behaves like the real table (no shared object references).
+function createMemoryCheckpointer(): Checkpointer {
+  const threads = new Map<string, string>();
+  return {
+    async load(threadId) {
+      const saved = threads.get(threadId);
+      return saved ? JSON.parse(saved) : null;
+    },
+    async save(state) {
+      threads.set(state.threadId, JSON.stringify(state));
+    },
+  };
+}
 
-const app = workflow.compile();
+let checkpointer: Checkpointer = Deno.env.get("CHECKPOINTER") === "memory"
+  ? createMemoryCheckpointer()
+  : createSupabaseCheckpointer();
+
+// Swap where run state is saved, e.g. to see what a test resumes from
+function useCheckpointer(store: Checkpointer): void {
+  checkpointer = store;
+}
 
 // ============================================
-// Agent Runner
+// Conversations
 // ============================================
+// A conversation is one chat in the UI. Its id is also the checkpoint
+// thread_id, so the last saved state (including selectedLead) carries over
+// from one message to the next.
 
-async function runAgent(message: string): Promise<AgentResponse> {
-  try {
-    const result = await app.invoke({
-      userMessage: message,
-      intent: null,
-      leads: [],
-      selectedLead: null,
-      pendingAction: null,
-      approvalStatus: null,
-      response: null,
-      error: null,
-    });
-    
-    return {
-      success: !result.error,
-      message: result.response || "No response",
-      data: {
-        leads: result.leads?.length ? result.leads : undefined,
-        pendingApproval: result.pendingAction ? {
-          actionId: result.pendingAction.leadId,
-          type: result.pendingAction.type,
-          description: `${result.pendingAction.type} for ${result.pendingAction.leadName}`,
-        } : undefined,
-      },
-      error: result.error || undefined,
-    };
-  } catch (e) {
-    return { success: false, message: "Agent failed", error: e.message };
+/**
+ * Create the conversation, or check the caller owns it before continuing it.
+ */
+async function touchConversation(id: string, userId: string | null): Promise<void> {
+  const existing = await repositories.conversations.get(id);
+  // A conversation stays in the organization it was started in
+  if (existing && (existing.user_id !== userId || (existing.org_id && existing.org_id !== currentOrgId()))) {
+    throw new Error("Conversation not found");
   }
+  
+  await repositories.conversations.save({ id, user_id: userId, org_id: currentOrgId() });
+}
+
+async function loadHistory(conversationId: string): Promise<ConversationTurn[]> {
+  return await repositories.conversations.history(conversationId, HISTORY_TURNS);
+}
+
+async function appendMessages(conversationId: string, turns: ConversationTurn[]): Promise<void> {
+  await repositories.conversations.append(conversationId, turns);
 }
 
 // ============================================
-// Edge Function Handler
+// Approval Policies
 // ============================================
+// Each organization decides what needs a human's OK, and who can give it, in
+// the approval_policies table. Rules are checked in priority order and the
+// first match wins; if nothing matches, the agent goes ahead on its own.
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
-  }
+interface ApprovalRule {
+  id: string;
+  name: string;                       // Shown to the user: "Deals over $100k"
+  priority: number;                   // Lower is checked first
+  action_type: PendingAction["type"] | null;  // null = any action
+  score_above: number | null;         // Current or proposed score
+  value_above: number | null;         // Current or proposed estimated_value
+  from_status: LeadStatus[] | null;   // Only status changes from one of these...
+  to_status: LeadStatus[] | null;     // ...and/or to one of these
+  requires_approval: boolean;         // false = explicitly allowed
+  approver_roles: OrgRole[];
+  approval_steps: OrgRole[][] | null; // Several sign-offs in order; overrides approver_roles
+  ttl_hours: number | null;           // Overrides APPROVAL_TTL_HOURS
+}
+
+interface PolicyDecision {
+  requiresApproval: boolean;
+  rule: { id: string; name: string } | null;   // null = no rule matched
+  steps: OrgRole[][];                 // Who signs off, in order: [["manager"], ["finance"]]
+  ttlHours: number | null;
+}
+
+const ORG_ROLES: OrgRole[] = ["member", "manager", "owner", "finance"];
+
+const ROLE_LABELS: Record<OrgRole, string> = {
+  member: "a team member",
+  manager: "a manager",
+  owner: "an owner",
+  finance: "finance",
+};
+
+// How long an approval request waits before it's auto-rejected
+const APPROVAL_TTL_HOURS = parseFloat(Deno.env.get("APPROVAL_TTL_HOURS") || "72");
+
+// What every organization gets until it writes its own rules - the two
+// checks the agent has always made.
+const DEFAULT_APPROVAL_RULES: ApprovalRule[] = [
+  {
+    id: "default_send_email",
+    name: "Every email needs approval",
+    priority: 10,
+    action_type: "send_email",
+    score_above: null,
+    value_above: null,
+    from_status: null,
+    to_status: null,
+    requires_approval: true,
+    approver_roles: ORG_ROLES,
+    approval_steps: null,
+    ttl_hours: null,
+  },
+  {
+    id: "default_high_score",
+    name: `Changes to leads scoring over ${HIGH_VALUE_THRESHOLD}`,
+    priority: 20,
+    action_type: "update_lead",
+    score_above: HIGH_VALUE_THRESHOLD,
+    value_above: null,
+    from_status: null,
+    to_status: null,
+    requires_approval: true,
+    approver_roles: ORG_ROLES,
+    approval_steps: null,
+    ttl_hours: null,
+  },
+];
+
+async function loadApprovalRules(orgId: string | null): Promise<ApprovalRule[]> {
+  const rules = await repositories.policies.approvalRules(orgId);
+  return rules.length ? rules : DEFAULT_APPROVAL_RULES;
+}
+
+function ruleMatches(
+  rule: ApprovalRule,
+  actionType: PendingAction["type"],
+  lead: Lead,
+  changes: LeadChanges = {}
+): boolean {
+  if (rule.action_type && rule.action_type !== actionType) return false;
   
-  try {
-    const { message, action, actionId } = await req.json();
-    
-    // Handle approval actions (simplified for exercise)
-    if (action === "approve" || action === "reject") {
-      return new Response(
-        JSON.stringify({ success: true, message: `Action ${actionId} ${action}ed.` }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    if (!message) {
-      return new Response(
-        JSON.stringify({ error: "Missing 'message'" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    const result = await runAgent(message);
-    
-    return new Response(
-      JSON.stringify(result),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  } catch (e) {
-    console.error("Handler error:", e);
-    return new Response(
-      JSON.stringify({ error: "Internal error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+  const score = Math.max(lead.score, changes.score ?? 0);
+  if (rule.score_above !== null && score <= rule.score_above) return false;
+  
+  const value = Math.max(lead.estimated_value ?? 0, changes.estimated_value ?? 0);
+  if (rule.value_above !== null && value <= rule.value_above) return false;
+  
+  if (rule.from_status || rule.to_status) {
+    if (!changes.status || changes.status === lead.status) return false;
+    if (rule.from_status && !rule.from_status.includes(lead.status)) return false;
+    if (rule.to_status && !rule.to_status.includes(changes.status)) return false;
   }
+  
+  return true;
+}
+
+async function checkApprovalPolicy(
+  orgId: string | null,
+  actionType: PendingAction["type"],
+  lead: Lead,
+  changes?: LeadChanges
+): Promise<PolicyDecision> {
+  const rules = await loadApprovalRules(orgId);
+  const rule = rules.find((r) => ruleMatches(r, actionType, lead, changes));
+  
+  if (!rule) return { requiresApproval: false, rule: null, steps: [], ttlHours: null };
+  
+  const steps = rule.approval_steps?.length ? rule.approval_steps : [rule.approver_roles];
+  return {
+    requiresApproval: rule.requires_approval,
+    rule: { id: rule.id, name: rule.name },
+    steps: rule.requires_approval ? steps : [],
+    ttlHours: rule.ttl_hours ?? APPROVAL_TTL_HOURS,
+  };
+}
+
+function describeApprovers(roles: OrgRole[]): string {
+  if (ORG_ROLES.every((r) => roles.includes(r))) return "anyone on the team";
+  return roles.map((r) => ROLE_LABELS[r] ?? r).join(" or ");
+}
+
+function describePolicy(policy: PolicyDecision): string {
+  const chain = policy.steps.map(describeApprovers).join(", then ");
+  return `Rule "${policy.rule?.name}": needs approval from ${chain}.`;
+}
+
+function samePolicy(a: PolicyDecision, b: PolicyDecision): boolean {
+  return a.requiresApproval === b.requiresApproval &&
+    a.rule?.id === b.rule?.id &&
+    JSON.stringify(a.steps) === JSON.stringify(b.steps);
+}
+
+// ============================================
+// Status Transitions
+// ============================================
+// Leads move through the pipeline one step at a time:
+//   new → contacted → qualified → proposal → won / lost
+// Any open lead can be lost, and a lead can step back one stage. Reopening a
+// won or lost deal is allowed but always needs a manager's approval. Anything
+// else (new → won, won → contacted) is refused - except undoing a logged
+// change, which may step back along a move that only goes forwards
+// (contacted → new after new → contacted), with the same approval as
+// reopening. Organizations can replace
+// these rules in lead_status_transitions, which a trigger on leads also
+// enforces, so a direct database update can't skip them either.
+
+interface StatusTransition {
+  from_status: LeadStatus;
+  to_status: LeadStatus;
+  requires_approval: boolean;
+}
+
+type TransitionCheck =
+  | { allowed: true; requiresApproval: boolean }
+  | { allowed: false; next: LeadStatus[] };    // Where the lead could go instead
+
+// Who approves a transition that needs it, whatever the approval policies say
+const TRANSITION_APPROVER_ROLES: OrgRole[] = ["manager", "owner"];
+
+const DEFAULT_STATUS_TRANSITIONS: StatusTransition[] = [
+  ["new", "contacted"], ["new", "lost"],
+  ["contacted", "qualified"], ["contacted", "lost"],
+  ["qualified", "proposal"], ["qualified", "contacted"], ["qualified", "lost"],
+  ["proposal", "won"], ["proposal", "lost"], ["proposal", "qualified"],
+].map(([from_status, to_status]) => ({ from_status, to_status, requires_approval: false }) as StatusTransition)
+  .concat([
+    { from_status: "won", to_status: "proposal", requires_approval: true },
+    { from_status: "lost", to_status: "contacted", requires_approval: true },
+  ]);
+
+// The org's own graph if it has one, else the shared rows, else the built-in one
+async function loadStatusTransitions(orgId: string | null): Promise<StatusTransition[]> {
+  const transitions = await repositories.policies.statusTransitions(orgId);
+  const own = transitions.filter((t) => t.org_id);
+  const shared = transitions.filter((t) => !t.org_id);
+  if (own.length) return own;
+  return shared.length ? shared : DEFAULT_STATUS_TRANSITIONS;
+}
+
+async function checkStatusTransition(orgId: string | null, from: LeadStatus, to: LeadStatus): Promise<TransitionCheck> {
+  if (from === to) return { allowed: true, requiresApproval: false };
+  
+  const transitions = await loadStatusTransitions(orgId);
+  const match = transitions.find((t) => t.from_status === from && t.to_status === to);
+  if (match) return { allowed: true, requiresApproval: match.requires_approval };
+  
+  return { allowed: false, next: transitions.filter((t) => t.from_status === from).map((t) => t.to_status) };
+}
+
+function describeIllegalTransition(lead: Lead, to: LeadStatus, next: LeadStatus[]): string {
+  const options = next.length ? `It can go to: ${next.join(", ")}.` : "It can't change status from here.";
+  return `🚫 ${lead.company_name} can't go from ${lead.status} to ${to}. ${options}`;
+}
+
+/**
+ * The approval decision for updating a lead: the org's approval policy, plus
+ * the status transition rules. Returns a message instead if the status
+ * change isn't allowed at all. `reverting` is for undo, whose changes are the
+ * before values of a logged change.
+ */
+async function checkUpdatePolicy(
+  orgId: string | null,
+  lead: Lead,
+  changes: LeadChanges,
+  reverting = false
+): Promise<PolicyDecision | string> {
+  if (changes.status) {
+    const transition = await checkStatusTransition(orgId, lead.status, changes.status);
+    if (!transition.allowed) {
+      if (reverting && (await checkStatusTransition(orgId, changes.status, lead.status)).allowed) {
+        return {
+          requiresApproval: true,
+          rule: { id: "status_revert", name: `Undoing a move from ${changes.status} to ${lead.status}` },
+          steps: [TRANSITION_APPROVER_ROLES],
+          ttlHours: APPROVAL_TTL_HOURS,
+        };
+      }
+      return describeIllegalTransition(lead, changes.status, transition.next);
+    }
+    
+    if (transition.requiresApproval) {
+      return {
+        requiresApproval: true,
+        rule: { id: "status_transition", name: `Moving a ${lead.status} lead back to ${changes.status}` },
+        steps: [TRANSITION_APPROVER_ROLES],
+        ttlHours: APPROVAL_TTL_HOURS,
+      };
+    }
+  }
+  return checkApprovalPolicy(orgId, "update_lead", lead, changes);
+}
+
+// ============================================
+// Pending Actions
+// ============================================
+// An approval can arrive minutes or hours after the request that proposed it,
+// in a completely separate HTTP call. So the proposed action (and the lead as
+// it looked at the time) goes into the pending_actions table, and the
+// approve/reject endpoint loads it back from there.
+
+async function savePendingAction(state: AgentState): Promise<string> {
+  const pending = state.pendingAction!;
+  return await repositories.pendingActions.add({
+    org_id: state.orgId!,
+    lead_id: pending.leadId,
+    thread_id: state.threadId,
+    action_type: pending.type,
+    action: pending,
+    lead_snapshot: state.selectedLead,
+    user_message: state.userMessage,
+    requested_by: state.userId,
+    policy: pending.policy ?? null,
+    approver_roles: pending.policy?.steps[0] ?? null,
+    current_step: 0,
+    expires_at: pending.policy?.ttlHours
+      ? new Date(Date.now() + pending.policy.ttlHours * 3600_000).toISOString()
+      : null,
+    status: "pending",
+  });
+}
+
+async function getPendingActionDecision(orgId: string | null, id: string): Promise<{
+  status: ReviewStatus;
+  decided_by: string | null;
+}> {
+  const row = await repositories.pendingActions.get(orgId, id);
+  if (!row) throw new Error(`No pending action with id ${id}`);
+  return { status: row.status, decided_by: row.decided_by };
+}
+
+const DECISION_VERBS: Record<ReviewStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+async function logApprovalDecision(state: AgentState): Promise<void> {
+  const pending = state.pendingAction!;
+  const status = state.approvalStatus ?? "rejected";
+  await logInteraction({
+    org_id: state.orgId,
+    lead_id: pending.leadId,
+    interaction_type: "human_approval",
+    description: `${DECISION_VERBS[status]} ${pending.type} for ${pending.leadName}`,
+    performed_by: state.reviewerId,
+    required_approval: true,
+    approved: status === "approved",
+    approved_by: state.reviewerId,
+    metadata: {
+      pending_action_id: state.pendingActionId,
+      outcome: status,
+      edited: !!pending.original,
+      actor: status === "expired" ? "system" : "human",
+    },
+  });
+}
+
+// Both versions of an edited action, for interaction metadata. Lets us
+// count how often approvers rewrite the agent's drafts.
+function editMetadata(pending: PendingAction): Record<string, unknown> {
+  if (!pending.original) return { edited: false };
+  return {
+    edited: true,
+    edited_by: pending.editedBy,
+    original: pending.original,
+    edited_version: { emailContent: pending.emailContent, changes: pending.changes },
+  };
+}
+
+// One row per sign-off, so a two-step chain shows who approved each step
+async function recordApprovalStep(
+  row: PendingActionRow,
+  decision: Exclude<ReviewStatus, "pending">,
+  step = row.current_step
+): Promise<void> {
+  await repositories.approvalDecisions.add({
+    org_id: row.org_id,
+    pending_action_id: row.id,
+    step,
+    decision,
+    decided_by: decision === "expired" ? "system" : currentUserId(),
+    role: decision === "expired" ? null : currentRole(),
+  });
+}
+
+async function hasApprovedEarlierStep(actionId: string, userId: string | null): Promise<boolean> {
+  return await repositories.approvalDecisions.hasApproved(actionId, userId);
+}
+
+// ============================================
+// Interactions
+// ============================================
+// performed_by holds the Supabase user id of the person responsible: the
+// requester for things the agent did on their behalf (metadata.actor
+// "agent"), the reviewer for approval decisions (metadata.actor "human").
+
+async function logInteraction(entry: NewInteraction): Promise<void> {
+  await repositories.interactions.add({
+    ...entry,
+    performed_by: entry.performed_by ?? "agent",
+  });
+}
+
+// ============================================
+// Lead Updates
+// ============================================
+// Every change the agent makes to a lead is logged with the values it
+// replaced (metadata.before) and the new ones (metadata.after), so "undo the
+// last change to TechCorp" can put them back.
+
+// Field values as stored, including nulls for fields that were empty
+type LeadValues = { [K in keyof LeadChanges]?: LeadChanges[K] | null };
+
+interface LeadDiff {
+  before: LeadValues;
+  after: LeadValues;
+}
+
+// How far back "undo" looks for a change that hasn't been undone yet
+const UNDO_LOOKBACK = 20;
+
+async function applyLeadChanges(
+  orgId: string | null,
+  leadId: string,
+  changes: LeadValues,
+  reverting = false
+): Promise<LeadDiff> {
+  const current = await repositories.leads.get(orgId, leadId);
+  if (!current) throw new Error(`Lead ${leadId} not found`);
+  
+  if (reverting) await repositories.leads.revert(orgId, leadId, changes as Partial<Lead>);
+  else await repositories.leads.update(orgId, leadId, changes as Partial<Lead>);
+  
+  // One field at a time, so each value keeps its own field's type
+  const before: LeadValues = {};
+  const keep = <K extends keyof LeadChanges>(field: K) => {
+    before[field] = current[field] ?? null;
+  };
+  (Object.keys(changes) as (keyof LeadChanges)[]).forEach(keep);
+  return { before, after: changes };
+}
+
+/**
+ * Apply changes to a lead and log them as an interaction with before/after
+ * values. Approval details come from the state, like saveQualification.
+ */
+async function updateLead(
+  state: AgentState,
+  leadId: string,
+  changes: LeadValues,
+  reverts?: string
+): Promise<LeadDiff> {
+  const diff = await applyLeadChanges(state.orgId, leadId, changes, !!reverts);
+  const approved = state.approvalStatus === "approved";
+  
+  await logInteraction({
+    org_id: state.orgId,
+    lead_id: leadId,
+    interaction_type: reverts ? "change_reverted" : "status_change",
+    description: `${reverts ? "Reverted" : "Updated"}: ${describeDiff(diff)}`,
+    performed_by: state.userId,
+    required_approval: approved,
+    approved: approved || null,
+    approved_by: approved ? state.reviewerId : null,
+    metadata: {
+      ...diff,
+      reverts,
+      ...(state.pendingAction ? editMetadata(state.pendingAction) : {}),
+      actor: "agent",
+    },
+  });
+  return diff;
+}
+
+function describeDiff(diff: LeadDiff): string {
+  return Object.entries(diff.after)
+    .map(([field, after]) => `${field} ${diff.before[field as keyof LeadChanges] ?? "(none)"} → ${after ?? "(none)"}`)
+    .join(", ");
+}
+
+/**
+ * The newest change to a lead that can still be undone: not itself an undo,
+ * and not undone already. Undoing repeatedly walks back through history.
+ */
+async function findLastChange(lead: Lead): Promise<(Interaction & { metadata: LeadDiff }) | null> {
+  const changes = await repositories.interactions.recentChanges(lead, UNDO_LOOKBACK) as (Interaction & { metadata: LeadDiff & { reverts?: string } })[];
+  const reverted = new Set(changes.map((i) => i.metadata.reverts).filter(Boolean));
+  return changes.find((i) => !i.metadata.reverts && !reverted.has(i.id)) ?? null;
+}
+
+// ============================================
+// Lead Filters
+// ============================================
+// "Qualified leads over $50k not contacted in 2 weeks" becomes
+// { status_in: ["qualified"], value_min: 50000, not_contacted_in_days: 14 },
+// which compileLeadFilter() in starter-kit/repositories.ts turns into
+// Supabase query builder calls.
+
+const LEAD_FILTER_SCHEMA = {
+  type: "object",
+  properties: {
+    search: { type: "string", description: "Part of a company or contact name" },
+    status_in: { type: "array", items: { type: "string", enum: LEAD_STATUSES } },
+    status_not_in: { type: "array", items: { type: "string", enum: LEAD_STATUSES } },
+    score_min: { type: "integer", minimum: 0, maximum: 100, description: '"Hot" leads means score_min 80' },
+    score_max: { type: "integer", minimum: 0, maximum: 100 },
+    value_min: { type: "number", minimum: 0, description: "Minimum estimated deal value in dollars" },
+    value_max: { type: "number", minimum: 0 },
+    source_in: { type: "array", items: { type: "string" }, description: "e.g. website, referral, linkedin, conference" },
+    created_within_days: { type: "integer", minimum: 1 },
+    created_before_days: { type: "integer", minimum: 1 },
+    contacted_within_days: { type: "integer", minimum: 1 },
+    not_contacted_in_days: { type: "integer", minimum: 1 },
+    sort_by: { type: "string", enum: SORTABLE_COLUMNS },
+    sort_direction: { type: "string", enum: ["asc", "desc"] },
+    limit: { type: "integer", minimum: 1, maximum: MAX_LOOKUP_LIMIT },
+  },
+  additionalProperties: false,
+};
+
+function isStatusList(value: unknown): value is LeadStatus[] {
+  return Array.isArray(value) && value.every((v) => LEAD_STATUSES.includes(v));
+}
+
+function isPositiveInt(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function validateLeadFilter(input: unknown): LeadFilter | string {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== "object") return "filter must be an object";
+  
+  const filter: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    switch (key) {
+      case "search":
+        if (typeof value !== "string") return "search must be a string";
+        break;
+      case "status_in":
+      case "status_not_in":
+        if (!isStatusList(value)) return `${key} must be a list of lead statuses`;
+        break;
+      case "score_min":
+      case "score_max":
+        if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 100) {
+          return `${key} must be an integer from 0 to 100`;
+        }
+        break;
+      case "value_min":
+      case "value_max":
+        if (typeof value !== "number" || value < 0) return `${key} must be a positive number`;
+        break;
+      case "source_in":
+        if (!Array.isArray(value) || !value.every((v) => typeof v === "string")) {
+          return "source_in must be a list of strings";
+        }
+        break;
+      case "created_within_days":
+      case "created_before_days":
+      case "contacted_within_days":
+      case "not_contacted_in_days":
+        if (!isPositiveInt(value)) return `${key} must be a positive whole number of days`;
+        break;
+      case "sort_by":
+        if (!SORTABLE_COLUMNS.includes(value as SortableColumn)) return `can't sort by "${value}"`;
+        break;
+      case "sort_direction":
+        if (value !== "asc" && value !== "desc") return "sort_direction must be asc or desc";
+        break;
+      case "limit":
+        if (!isPositiveInt(value)) return "limit must be a positive integer";
+        break;
+      default:
+        return `unknown filter "${key}"`;
+    }
+    filter[key] = value;
+  }
+  return filter as LeadFilter;
+}
+
+/**
+ * Short human-readable summary, e.g. "status qualified, value ≥ $50,000".
+ */
+function describeLeadFilter(filter: LeadFilter): string {
+  const parts: string[] = [];
+  if (filter.search) parts.push(`matching "${filter.search}"`);
+  if (filter.status_in?.length) parts.push(`status ${filter.status_in.join("/")}`);
+  if (filter.status_not_in?.length) parts.push(`status not ${filter.status_not_in.join("/")}`);
+  if (filter.score_min !== undefined) parts.push(`score ≥ ${filter.score_min}`);
+  if (filter.score_max !== undefined) parts.push(`score ≤ ${filter.score_max}`);
+  if (filter.value_min !== undefined) parts.push(`value ≥ $${filter.value_min.toLocaleString()}`);
+  if (filter.value_max !== undefined) parts.push(`value ≤ $${filter.value_max.toLocaleString()}`);
+  if (filter.source_in?.length) parts.push(`from ${filter.source_in.join("/")}`);
+  if (filter.created_within_days) parts.push(`created in the last ${filter.created_within_days} days`);
+  if (filter.created_before_days) parts.push(`created over ${filter.created_before_days} days ago`);
+  if (filter.contacted_within_days) parts.push(`contacted in the last ${filter.contacted_within_days} days`);
+  if (filter.not_contacted_in_days) parts.push(`not contacted in ${filter.not_contacted_in_days} days`);
+  return parts.join(", ");
+}
+
+// ============================================
+// Repositories
+// ============================================
+// Leads, their interactions, each org's approval rules and templates, the
+// approval queue and conversations are read and written through these
+// interfaces, never with supabase.from() directly, so the whole graph -
+// pausing for approval included - can run without a database. CRM_STORE
+// picks the store:
+// - "supabase": the real tables. Reads go through readDb() so RLS applies to
+//               the caller; writes and webhook lookups use the service role.
+// - "memory":   arrays, with the leads and interactions seeded from
+//               starter-kit/sample-data.ts in the demo organization. For
+//               tests and local runs.
+// Leads and interactions come from starter-kit/repositories.ts, which the
+// earlier exercises use on their own.
+
+type OrgStatusTransition = StatusTransition & { org_id: string | null };
+
+interface PolicyRepository {
+  // Enabled rules in priority order; empty when the org has none
+  approvalRules(orgId: string | null): Promise<ApprovalRule[]>;
+  // The org's own rows plus the shared ones (org_id null)
+  statusTransitions(orgId: string | null): Promise<OrgStatusTransition[]>;
+}
+
+interface TemplateRepository {
+  // The org's own templates plus the shared ones (org_id null), by slug
+  list(orgId: string | null): Promise<EmailTemplate[]>;
+}
+
+type NewPendingAction = Omit<PendingActionRow, "id" | "decided_at" | "decided_by" | "created_at">;
+
+// What a review changes on a pending_actions row
+type PendingActionUpdate = Partial<
+  Pick<PendingActionRow, "action" | "status" | "decided_at" | "decided_by" | "current_step" | "approver_roles">
+>;
+
+interface PendingActionRepository {
+  add(row: NewPendingAction): Promise<string>;
+  get(orgId: string | null, id: string): Promise<PendingActionRow | null>;
+  // Oldest first
+  list(orgId: string | null, filter: ApprovalFilter, limit: number): Promise<PendingActionRow[]>;
+  // Update the row only while it's still pending and matches `expected`,
+  // so two reviewers can't both decide it. Null when it didn't match.
+  claim(
+    orgId: string | null,
+    id: string,
+    expected: Partial<Pick<PendingActionRow, "current_step" | "requested_by">>,
+    update: PendingActionUpdate
+  ): Promise<PendingActionRow | null>;
+  // Mark every pending row past its expires_at as expired, and return them
+  expire(orgId: string | null, now: string): Promise<PendingActionRow[]>;
+}
+
+interface ApprovalDecision {
+  org_id: string;
+  pending_action_id: string;
+  step: number;
+  decision: Exclude<ReviewStatus, "pending">;
+  decided_by: string | null;          // "system" for expiry
+  role: OrgRole | null;
+}
+
+interface ApprovalDecisionRepository {
+  add(decision: ApprovalDecision): Promise<void>;
+  hasApproved(actionId: string, userId: string | null): Promise<boolean>;
+}
+
+interface Conversation {
+  id: string;
+  user_id: string | null;
+  org_id: string | null;
+}
+
+interface ConversationRepository {
+  get(id: string): Promise<Conversation | null>;
+  // Create it, or mark it as updated
+  save(conversation: Conversation): Promise<void>;
+  // The last `limit` messages, oldest first
+  history(id: string, limit: number): Promise<ConversationTurn[]>;
+  append(id: string, turns: ConversationTurn[]): Promise<void>;
+}
+
+interface Repositories extends CrmRepositories {
+  policies: PolicyRepository;
+  templates: TemplateRepository;
+  pendingActions: PendingActionRepository;
+  approvalDecisions: ApprovalDecisionRepository;
+  conversations: ConversationRepository;
+}
+
+function createSupabaseRepositories(): Repositories {
+  return {
+    ...createSupabaseCrmRepositories(supabase, readDb),
+    
+    policies: {
+      async approvalRules(orgId) {
+        const { data, error } = await forOrg(supabase.from("approval_policies").select("*"), orgId)
+          .eq("enabled", true)
+          .order("priority");
+        if (error) throw error;
+        return data ?? [];
+      },
+      async statusTransitions(orgId) {
+        const { data, error } = await supabase
+          .from("lead_status_transitions")
+          .select("org_id, from_status, to_status, requires_approval")
+          .or(orgId ? `org_id.eq.${orgId},org_id.is.null` : "org_id.is.null");
+        if (error) throw error;
+        return data ?? [];
+      },
+    },
+    
+    templates: {
+      async list(orgId) {
+        const query = readDb().from("email_templates").select("*");
+        const { data, error } = await (orgId ? query.or(`org_id.eq.${orgId},org_id.is.null`) : query.is("org_id", null))
+          .order("slug");
+        if (error) throw error;
+        return data ?? [];
+      },
+    },
+    
+    // The approval queue and conversations are the agent's own bookkeeping:
+    // written with the service role, but inbox reads still go through RLS
+    pendingActions: {
+      async add(row) {
+        const { data, error } = await supabase.from("pending_actions").insert(row).select("id").single();
+        if (error) throw error;
+        return data.id;
+      },
+      async get(orgId, id) {
+        const { data, error } = await forOrg(readDb().from("pending_actions").select("*"), orgId)
+          .eq("id", id)
+          .maybeSingle<PendingActionRow>();
+        if (error) throw error;
+        return data;
+      },
+      async list(orgId, filter, limit) {
+        let query = forOrg(readDb().from("pending_actions").select("*"), orgId)
+          .eq("status", filter.status)
+          .order("created_at", { ascending: true })
+          .limit(limit);
+        
+        if (filter.leadId) query = query.eq("lead_id", filter.leadId);
+        if (filter.requestedBy) query = query.eq("requested_by", filter.requestedBy);
+        if (filter.type) query = query.eq("action_type", filter.type);
+        if (filter.minAgeHours !== undefined) query = query.lte("created_at", hoursAgo(filter.minAgeHours));
+        if (filter.maxAgeHours !== undefined) query = query.gte("created_at", hoursAgo(filter.maxAgeHours));
+        
+        const { data, error } = await query;
+        if (error) throw error;
+        return data ?? [];
+      },
+      async claim(orgId, id, expected, update) {
+        let query = forOrg(supabase.from("pending_actions").update(update), orgId)
+          .eq("id", id)
+          .eq("status", "pending");
+        if (expected.current_step !== undefined) query = query.eq("current_step", expected.current_step);
+        if (expected.requested_by !== undefined) query = query.eq("requested_by", expected.requested_by);
+        
+        const { data, error } = await query.select().maybeSingle<PendingActionRow>();
+        if (error) throw error;
+        return data;
+      },
+      async expire(orgId, now) {
+        const { data, error } = await forOrg(
+          supabase.from("pending_actions").update({ status: "expired", decided_at: now, decided_by: "system" }),
+          orgId
+        )
+          .eq("status", "pending")
+          .lt("expires_at", now)
+          .select();
+        if (error) throw error;
+        return data ?? [];
+      },
+    },
+    
+    approvalDecisions: {
+      async add(decision) {
+        const { error } = await supabase.from("approval_decisions").insert(decision);
+        if (error) throw error;
+      },
+      async hasApproved(actionId, userId) {
+        const { count, error } = await supabase
+          .from("approval_decisions")
+          .select("id", { count: "exact", head: true })
+          .eq("pending_action_id", actionId)
+          .eq("decided_by", userId)
+          .eq("decision", "approved");
+        if (error) throw error;
+        return (count ?? 0) > 0;
+      },
+    },
+    
+    conversations: {
+      async get(id) {
+        const { data, error } = await supabase
+          .from("conversations")
+          .select("id, user_id, org_id")
+          .eq("id", id)
+          .maybeSingle();
+        if (error) throw error;
+        return data;
+      },
+      async save(conversation) {
+        const { error } = await supabase
+          .from("conversations")
+          .upsert({ ...conversation, updated_at: new Date().toISOString() });
+        if (error) throw error;
+      },
+      async history(id, limit) {
+        const { data, error } = await supabase
+          .from("messages")
+          .select("role, content")
+          .eq("conversation_id", id)
+          .order("id", { ascending: false })
+          .limit(limit);
+        if (error) throw error;
+        return (data ?? []).reverse();
+      },
+      async append(id, turns) {
+        const { error } = await supabase
+          .from("messages")
+          .insert(turns.map((t) => ({ conversation_id: id, ...t })));
+        if (error) throw error;
+      },
+    },
+  };
+}
+
+interface MemoryRepositories extends Repositories, MemoryCrmRepositories {
+  // The stored rows, for tests to inspect or add to. Approval rules and
+  // transitions start empty, so the built-in defaults apply; so do
+  // templates, so follow-ups fall back to the generic email.
+  approvalRules: ApprovalRule[];          // All for the seeded org
+  statusTransitions: OrgStatusTransition[];
+  templateRows: EmailTemplate[];
+  pendingActionRows: PendingActionRow[];
+  approvalDecisionRows: ApprovalDecision[];
+  conversationRows: Conversation[];
+  messageRows: (ConversationTurn & { conversation_id: string })[];
+}
+
+/**
+ * Repositories over plain arrays. Rows are copied in and out so callers
+ * can't change stored data by mutating what they got back - the same as
+ * going through the database.
+ */
+function createMemoryRepositories(orgId: string = DEMO_ORG_ID): MemoryRepositories {
+  const approvalRules: ApprovalRule[] = [];
+  const statusTransitions: OrgStatusTransition[] = [];
+  const templateRows: EmailTemplate[] = [];
+  const pendingActionRows: PendingActionRow[] = [];
+  const approvalDecisionRows: ApprovalDecision[] = [];
+  const conversationRows: Conversation[] = [];
+  const messageRows: MemoryRepositories["messageRows"] = [];
+  
+  const inOrg = (row: { org_id: string }, org: string | null) => !org || row.org_id === org;
+  
+  return {
+    ...createMemoryCrmRepositories(orgId),
+    approvalRules,
+    statusTransitions,
+    templateRows,
+    pendingActionRows,
+    approvalDecisionRows,
+    conversationRows,
+    messageRows,
+    
+    policies: {
+      async approvalRules() {
+        return structuredClone([...approvalRules].sort((a, b) => a.priority - b.priority));
+      },
+      async statusTransitions(org) {
+        return structuredClone(statusTransitions.filter((t) => !t.org_id || t.org_id === org));
+      },
+    },
+    
+    templates: {
+      async list(org) {
+        return structuredClone(
+          templateRows
+            .filter((t) => !t.org_id || t.org_id === org)
+            .sort((a, b) => a.slug.localeCompare(b.slug))
+        );
+      },
+    },
+    
+    pendingActions: {
+      async add(row) {
+        const id = crypto.randomUUID();
+        pendingActionRows.push(structuredClone({
+          ...row,
+          id,
+          decided_at: null,
+          decided_by: null,
+          created_at: new Date().toISOString(),
+        }));
+        return id;
+      },
+      async get(org, id) {
+        const row = pendingActionRows.find((r) => r.id === id && inOrg(r, org));
+        return row ? structuredClone(row) : null;
+      },
+      async list(org, filter, limit) {
+        return structuredClone(
+          pendingActionRows
+            .filter((r) =>
+              inOrg(r, org) &&
+              r.status === filter.status &&
+              (!filter.leadId || r.lead_id === filter.leadId) &&
+              (!filter.requestedBy || r.requested_by === filter.requestedBy) &&
+              (!filter.type || r.action_type === filter.type) &&
+              (filter.minAgeHours === undefined || r.created_at <= hoursAgo(filter.minAgeHours)) &&
+              (filter.maxAgeHours === undefined || r.created_at >= hoursAgo(filter.maxAgeHours))
+            )
+            .slice(0, limit)
+        );
+      },
+      async claim(org, id, expected, update) {
+        const row = pendingActionRows.find((r) =>
+          r.id === id && inOrg(r, org) && r.status === "pending" &&
+          (expected.current_step === undefined || r.current_step === expected.current_step) &&
+          (expected.requested_by === undefined || r.requested_by === expected.requested_by)
+        );
+        if (!row) return null;
+        Object.assign(row, structuredClone(update));
+        return structuredClone(row);
+      },
+      async expire(org, now) {
+        const expired = pendingActionRows.filter((r) =>
+          inOrg(r, org) && r.status === "pending" && r.expires_at !== null && r.expires_at < now
+        );
+        for (const row of expired) Object.assign(row, { status: "expired", decided_at: now, decided_by: "system" });
+        return structuredClone(expired);
+      },
+    },
+    
+    approvalDecisions: {
+      async add(decision) {
+        approvalDecisionRows.push(structuredClone(decision));
+      },
+      async hasApproved(actionId, userId) {
+        return approvalDecisionRows.some((d) =>
+          d.pending_action_id === actionId && d.decided_by === userId && d.decision === "approved"
+        );
+      },
+    },
+    
+    conversations: {
+      async get(id) {
+        const conversation = conversationRows.find((c) => c.id === id);
+        return conversation ? structuredClone(conversation) : null;
+      },
+      async save(conversation) {
+        const existing = conversationRows.find((c) => c.id === conversation.id);
+        if (existing) Object.assign(existing, structuredClone(conversation));
+        else conversationRows.push(structuredClone(conversation));
+      },
+      async history(id, limit) {
+        return messageRows
+          .filter((m) => m.conversation_id === id)
+          .slice(-limit)
+          .map(({ role, content }) => ({ role, content }));
+      },
+      async append(id, turns) {
+        messageRows.push(...turns.map((t) => ({ conversation_id: id, role: t.role, content: t.content })));
+      },
+    },
+  };
+}
+
+function createRepositories(): Repositories {
+  const store = Deno.env.get("CRM_STORE") || "supabase";
+  switch (store) {
+    case "supabase":
+      return createSupabaseRepositories();
+    case "memory":
+      return createMemoryRepositories();
+    default:
+      throw new Error(`Unknown CRM_STORE "${store}" (expected supabase or memory)`);
+  }
+}
+
+let repositories: Repositories = createRepositories();
+
+// Swap where leads and interactions live, e.g. fresh memory repositories per test
+function useRepositories(repos: Repositories): void {
+  repositories = repos;
+}
+
+// ============================================
+// Intent Classification
+// ============================================
+// Claude picks one tool per request, and the tool's input IS the intent.
+// Tool inputs are just JSON the model wrote, so each one is validated before
+// it goes into state. Anything that doesn't validate becomes "unknown".
+
+const INTENT_TOOLS: LlmTool[] = [
+  {
+    name: "lookup_leads",
+    description: "Show, find or list leads. Leave the filter empty to list all leads.",
+    input_schema: {
+      type: "object",
+      properties: {
+        filter: LEAD_FILTER_SCHEMA,
+      },
+      required: ["filter"],
+    },
+  },
+  {
+    name: "qualify_lead",
+    description: "Analyze or score a single lead.",
+    input_schema: {
+      type: "object",
+      properties: {
+        target: { type: "string", description: "Company or contact name of the lead" },
+      },
+      required: ["target"],
+    },
+  },
+  {
+    name: "follow_up",
+    description: "Send a follow-up email to a lead.",
+    input_schema: {
+      type: "object",
+      properties: {
+        target: { type: "string", description: "Company or contact name of the lead" },
+        template: {
+          type: "string",
+          description: 'Only if the user names a saved template, e.g. "intro", "post-demo", "proposal nudge", "win-back"',
+        },
+      },
+      required: ["target"],
+    },
+  },
+  {
+    name: "update_lead",
+    description: "Change fields on a lead, e.g. mark it as won or set its value.",
+    input_schema: {
+      type: "object",
+      properties: {
+        target: { type: "string", description: "Company or contact name of the lead" },
+        changes: {
+          type: "object",
+          properties: {
+            status: { type: "string", enum: LEAD_STATUSES },
+            score: { type: "integer", minimum: 0, maximum: 100 },
+            estimated_value: { type: "number", minimum: 0 },
+            notes: {
+              type: "string",
+              description: "Replaces all of the lead's notes - the existing text is not kept",
+            },
+          },
+          additionalProperties: false,
+        },
+      },
+      required: ["target", "changes"],
+    },
+  },
+  {
+    name: "undo_change",
+    description: "Undo the most recent change made to a lead, e.g. \"undo the last change to TechCorp\".",
+    input_schema: {
+      type: "object",
+      properties: {
+        target: { type: "string", description: "Company or contact name of the lead" },
+      },
+      required: ["target"],
+    },
+  },
+  {
+    name: "unknown_request",
+    description: "Anything that is not one of the CRM actions above.",
+    input_schema: { type: "object", properties: {} },
+  },
+];
+
+type IntentResult = { intent: AgentIntent } | { error: string };
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0 && value !== "null";
+}
+
+function validateChanges(input: unknown): LeadChanges | string {
+  if (!input || typeof input !== "object") return "changes must be an object";
+  
+  const changes: LeadChanges = {};
+  for (const [key, value] of Object.entries(input)) {
+    switch (key) {
+      case "status":
+        if (!LEAD_STATUSES.includes(value as LeadStatus)) return `invalid status "${value}"`;
+        changes.status = value as LeadStatus;
+        break;
+      case "score":
+        if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 100) {
+          return "score must be an integer from 0 to 100";
+        }
+        changes.score = value as number;
+        break;
+      case "estimated_value":
+        if (typeof value !== "number" || value < 0) return "estimated_value must be a positive number";
+        changes.estimated_value = value;
+        break;
+      case "notes":
+        if (typeof value !== "string") return "notes must be a string";
+        changes.notes = value;
+        break;
+      default:
+        return `"${key}" is not an editable field`;
+    }
+  }
+  return changes;
+}
+
+/**
+ * Turn a tool call into a typed AgentIntent, or explain why it's invalid.
+ */
+function validateIntent(toolName: string, input: unknown, rawMessage: string): IntentResult {
+  // Missing fields are reported below, so anything that isn't an object
+  // is treated as one with no fields
+  const fields: Record<string, unknown> = input && typeof input === "object" ? { ...input } : {};
+  const { target } = fields;
+  
+  switch (toolName) {
+    case "lookup_leads": {
+      const filter = validateLeadFilter(fields.filter);
+      if (typeof filter === "string") return { error: filter };
+      return { intent: { type: "lookup", filter } };
+    }
+    
+    case "qualify_lead":
+      if (!isNonEmptyString(target)) return { error: "target is required" };
+      return { intent: { type: "qualify", target } };
+    
+    case "follow_up": {
+      if (!isNonEmptyString(target)) return { error: "target is required" };
+      if (fields.template !== undefined && typeof fields.template !== "string") {
+        return { error: "template must be a string" };
+      }
+      const template = isNonEmptyString(fields.template) ? toTemplateSlug(fields.template) : undefined;
+      return { intent: { type: "followup", target, template } };
+    }
+    
+    case "update_lead": {
+      if (!isNonEmptyString(target)) return { error: "target is required" };
+      const changes = validateChanges(fields.changes);
+      if (typeof changes === "string") return { error: changes };
+      return { intent: { type: "update", target, changes } };
+    }
+    
+    case "undo_change":
+      if (!isNonEmptyString(target)) return { error: "target is required" };
+      return { intent: { type: "undo", target } };
+    
+    case "unknown_request":
+      return { intent: { type: "unknown", rawMessage } };
+    
+    default:
+      return { error: `unexpected tool "${toolName}"` };
+  }
+}
+
+// The lead an intent is about, if it names one
+function intentTarget(intent: AgentIntent | null): string | undefined {
+  return intent && "target" in intent ? intent.target : undefined;
+}
+
+// ============================================
+// Lead Qualification
+// ============================================
+// Claude reads the lead, its notes and its interaction history, then fills
+// in a BANT assessment (Budget, Authority, Need, Timeline) with a score.
+
+const QUALIFICATION_TOOL: LlmTool = {
+  name: "record_qualification",
+  description: "Record a BANT qualification of the lead.",
+  input_schema: {
+    type: "object",
+    properties: {
+      score: { type: "integer", minimum: 0, maximum: 100, description: "How likely this lead is to close" },
+      budget: { type: "string", description: "Can they afford it? Cite the evidence." },
+      authority: { type: "string", description: "Is the contact a decision maker?" },
+      need: { type: "string", description: "How strong is their need?" },
+      timeline: { type: "string", description: "When are they likely to buy?" },
+      rationale: { type: "string", description: "One or two sentences explaining the score" },
+    },
+    required: ["score", "budget", "authority", "need", "timeline", "rationale"],
+  },
+};
+
+function validateQualification(input: unknown): Qualification | string {
+  if (!input || typeof input !== "object") return "qualification must be an object";
+  const { score, budget, authority, need, timeline, rationale }: Record<string, unknown> = { ...input };
+  
+  if (typeof score !== "number" || !Number.isInteger(score) || score < 0 || score > 100) {
+    return "score must be an integer from 0 to 100";
+  }
+  if (!isNonEmptyString(budget)) return "budget is required";
+  if (!isNonEmptyString(authority)) return "authority is required";
+  if (!isNonEmptyString(need)) return "need is required";
+  if (!isNonEmptyString(timeline)) return "timeline is required";
+  if (!isNonEmptyString(rationale)) return "rationale is required";
+  return { score, budget, authority, need, timeline, rationale };
+}
+
+async function loadRecentInteractions(lead: Lead, limit = 20): Promise<Interaction[]> {
+  return await repositories.interactions.recent(lead, limit);
+}
+
+async function assessLead(lead: Lead, interactions: Interaction[]): Promise<Qualification> {
+  const history = interactions.length
+    ? interactions.map((i) => `- ${i.created_at.slice(0, 10)} [${i.interaction_type}] ${i.description}`).join("\n")
+    : "(no interactions yet)";
+  
+  const response = await withRetry(() =>
+    llm.complete({
+      maxTokens: 1024,
+      tools: [QUALIFICATION_TOOL],
+      toolChoice: { name: QUALIFICATION_TOOL.name },
+      messages: [{
+        role: "user",
+        content: `Qualify this sales lead using BANT. Only use the facts below; say "unknown" where there is no evidence.
+
+Company: ${lead.company_name}
+Contact: ${lead.contact_name}
+Status: ${lead.status}
+Current score: ${lead.score}
+Source: ${lead.source ?? "unknown"}
+Estimated value: ${lead.estimated_value ? `$${lead.estimated_value.toLocaleString()}` : "unknown"}
+Notes: ${lead.notes ?? "(none)"}
+
+Interaction history (newest first):
+${history}`
+      }],
+    })
+  );
+  
+  const call = response.toolCall;
+  if (!call) throw new Error("No qualification returned");
+  
+  const qualification = validateQualification(call.input);
+  if (typeof qualification === "string") throw new Error(`Invalid qualification: ${qualification}`);
+  return qualification;
+}
+
+function formatQualification(q: Qualification): string {
+  return `**Budget:** ${q.budget}
+**Authority:** ${q.authority}
+**Need:** ${q.need}
+**Timeline:** ${q.timeline}
+
+${q.rationale}`;
+}
+
+/**
+ * Write the new score and keep the reasoning as a note on the lead.
+ */
+async function saveQualification(
+  leadId: string,
+  qualification: Qualification,
+  state: AgentState
+): Promise<void> {
+  const diff = await applyLeadChanges(state.orgId, leadId, { score: qualification.score });
+  
+  const approved = state.approvalStatus === "approved";
+  await logInteraction({
+    org_id: state.orgId,
+    lead_id: leadId,
+    interaction_type: "note_added",
+    description: `Qualified (score ${qualification.score}): ${qualification.rationale}`,
+    performed_by: state.userId,
+    required_approval: approved,
+    approved: approved || null,
+    approved_by: approved ? state.reviewerId : null,
+    metadata: {
+      qualification,
+      ...diff,
+      ...(state.pendingAction ? editMetadata(state.pendingAction) : {}),
+      actor: "agent",
+    },
+  });
+}
+
+// ============================================
+// Email Templates
+// ============================================
+// Reusable emails stored in the email_templates table. Placeholders look like
+// {{contact_name}}; a template that uses a value the lead doesn't have (say,
+// no estimated_value yet) is refused rather than sent with a hole in it.
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+function hasPlaceholder(text: string): boolean {
+  return /\{\{\s*\w+\s*\}\}/.test(text);
+}
+
+// "Post-demo", "post demo" and "post_demo" all mean the same template
+function toTemplateSlug(name: string): string {
+  return name.trim().toLowerCase().replace(/\s*template$/, "").replace(/[\s-]+/g, "_");
+}
+
+// Templates with no org_id are shared defaults; an org can override one by
+// saving its own template with the same slug. Org-specific rows sort before
+// the shared ones.
+function preferOrgTemplate(templates: EmailTemplate[]): EmailTemplate | null {
+  return templates.sort((a, b) => (a.org_id ? 0 : 1) - (b.org_id ? 0 : 1))[0] ?? null;
+}
+
+async function loadTemplate(orgId: string | null, slug: string): Promise<EmailTemplate | null> {
+  const templates = await repositories.templates.list(orgId);
+  return preferOrgTemplate(templates.filter((t) => t.slug === slug));
+}
+
+async function loadDefaultTemplate(orgId: string | null, status: LeadStatus): Promise<EmailTemplate | null> {
+  const templates = await repositories.templates.list(orgId);
+  return preferOrgTemplate(templates.filter((t) => t.default_for.includes(status)));
+}
+
+async function listTemplateNames(orgId: string | null): Promise<string[]> {
+  const templates = await repositories.templates.list(orgId);
+  return [...new Set(templates.map((t) => t.slug))];
+}
+
+function templateVariables(lead: Lead): Record<string, string | null> {
+  return {
+    contact_name: lead.contact_name,
+    company_name: lead.company_name,
+    estimated_value: lead.estimated_value ? `$${lead.estimated_value.toLocaleString()}` : null,
+    signature: EMAIL_SIGNATURE,
+  };
+}
+
+/**
+ * Fill in a template for a lead. Returns the email, or the list of
+ * placeholders that couldn't be filled.
+ */
+function renderTemplate(template: EmailTemplate, lead: Lead): EmailContent | string[] {
+  const variables = templateVariables(lead);
+  const problems: string[] = [];
+  
+  const fill = (text: string) =>
+    text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+      const value = variables[name];
+      if (value === undefined) problems.push(`unknown placeholder {{${name}}}`);
+      else if (value === null) problems.push(`${name} is not set for ${lead.company_name}`);
+      return value ?? match;
+    });
+  
+  const email = { to: lead.contact_email, subject: fill(template.subject), body: fill(template.body) };
+  return problems.length ? [...new Set(problems)] : email;
+}
+
+// ============================================
+// Follow-up Drafting
+// ============================================
+// Claude writes the email from what we actually know about the lead. The
+// draft is checked before anyone sees it; if the LLM is down or the draft
+// breaks a rule, we fall back to a plain template instead of failing.
+
+const EMAIL_SIGNATURE = Deno.env.get("EMAIL_SIGNATURE") || "Best regards";
+const MAX_SUBJECT_CHARS = 120;
+const MAX_BODY_CHARS = 1500;
+const FOLLOWUP_CONTEXT_INTERACTIONS = 5;
+
+// Any currency amount. Pricing comes from a human, never from a draft.
+const PRICE_PATTERN = /[$€£]\s?\d|\d[\d,.]*\s?(k|usd|eur|gbp|dollars|euros)\b/i;
+
+// The draft is plain text ("Subject: ..." then the body) rather than a tool
+// call, so it can be streamed to the UI token by token as it's written.
+function parseDraft(text: string): { subject: string; body: string } | null {
+  const match = text.match(/^\s*Subject:[ \t]*(.+)\r?\n([\s\S]*)$/i);
+  return match ? { subject: match[1], body: match[2] } : null;
+}
+
+// Last resort when there's no LLM draft and no template for the lead's status
+function genericFollowupEmail(lead: Lead): EmailContent {
+  return {
+    to: lead.contact_email,
+    subject: `Following up - ${lead.company_name}`,
+    body: `Hi ${lead.contact_name},\n\nI wanted to follow up on our conversation about ${lead.company_name}.\n\n${EMAIL_SIGNATURE}`,
+  };
+}
+
+/**
+ * Enforce the rules every outgoing draft must follow. Returns the draft with
+ * the signature added, or a list of problems.
+ */
+function applyEmailGuardrails(draft: EmailContent): EmailContent | string[] {
+  const problems: string[] = [];
+  const subject = draft.subject.trim();
+  let body = draft.body.trim();
+  
+  if (!subject) problems.push("subject is empty");
+  if (subject.length > MAX_SUBJECT_CHARS) problems.push(`subject is over ${MAX_SUBJECT_CHARS} characters`);
+  if (!body) problems.push("body is empty");
+  if (PRICE_PATTERN.test(subject) || PRICE_PATTERN.test(body)) problems.push("mentions a price");
+  
+  if (!body.endsWith(EMAIL_SIGNATURE)) body = `${body}\n\n${EMAIL_SIGNATURE}`;
+  if (body.length > MAX_BODY_CHARS) problems.push(`body is over ${MAX_BODY_CHARS} characters`);
+  
+  return problems.length ? problems : { ...draft, subject, body };
+}
+
+/**
+ * The lead's default template for its status, or the generic email if there
+ * isn't one (or it can't be filled in).
+ */
+async function fallbackFollowupEmail(lead: Lead): Promise<{ email: EmailContent; templateSlug?: string }> {
+  const template = await loadDefaultTemplate(lead.org_id, lead.status).catch(() => null);
+  if (template) {
+    const rendered = renderTemplate(template, lead);
+    if (!Array.isArray(rendered)) return { email: rendered, templateSlug: template.slug };
+  }
+  return { email: genericFollowupEmail(lead) };
+}
+
+async function draftFollowupEmail(lead: Lead, interactions: Interaction[]): Promise<EmailContent> {
+  const history = interactions.length
+    ? interactions.map((i) => `- ${i.created_at.slice(0, 10)} [${i.interaction_type}] ${i.description}`).join("\n")
+    : "(no interactions yet)";
+  
+  let attempt = 0;
+  const response = await withRetry(() => {
+    if (attempt++ > 0) emitEvent({ type: "token_reset" });
+    
+    return llm.complete({
+      maxTokens: 1024,
+      onToken: (text) => emitEvent({ type: "token", text }),
+      messages: [{
+        role: "user",
+        content: `Write a short, friendly follow-up email from a sales rep to ${lead.contact_name} at ${lead.company_name}.
+
+Format: the first line is "Subject: <subject>", then a blank line, then the body. Nothing else.
+
+Rules:
+- Reference something specific from the notes or history below
+- Under 150 words, plain text
+- Do NOT mention prices, discounts or amounts of money
+- Do NOT add a signature, it's added automatically
+
+Lead status: ${lead.status}
+Deal size: ${lead.estimated_value && lead.estimated_value >= 50000 ? "large" : "small or unknown"}
+Notes: ${lead.notes ?? "(none)"}
+
+Recent interactions (newest first):
+${history}`
+      }],
+    });
+  });
+  
+  const draft = parseDraft(response.text);
+  if (!draft) throw new Error("Draft is missing a Subject line");
+  
+  const checked = applyEmailGuardrails({ to: lead.contact_email, ...draft });
+  if (Array.isArray(checked)) throw new Error(`Draft failed guardrails: ${checked.join(", ")}`);
+  return checked;
+}
+
+// ============================================
+// Agent Nodes
+// ============================================
+
+async function findLeadById(orgId: string | null, id: string): Promise<Lead | null> {
+  return await repositories.leads.get(orgId, id);
+}
+
+// Users name leads by company, contact or email: "follow up with Sophie"
+async function findLeads(orgId: string | null, target: string): Promise<Lead[]> {
+  return await repositories.leads.search(orgId, target, MAX_CHOICES);
+}
+
+function leadNames(lead: Lead): string[] {
+  return [lead.company_name, lead.contact_name, lead.contact_email]
+    .filter(Boolean)
+    .map((name) => name.toLowerCase());
+}
+
+/**
+ * The lead(s) the current intent is about. One lead means go ahead; several
+ * mean the user has to pick (see disambiguate). A lead already pinned down by
+ * id, or the one in focus when the message names none, is reloaded so the
+ * handler sees its current values.
+ */
+async function resolveLead(state: AgentState): Promise<Lead[]> {
+  const intent = state.intent;
+  const pinnedId = intent && "leadId" in intent ? intent.leadId : undefined;
+  const target = intentTarget(intent);
+  
+  if (pinnedId || !target) {
+    const id = pinnedId ?? state.selectedLead?.id;
+    const lead = id ? await findLeadById(state.orgId, id) : null;
+    return lead ? [lead] : [];
+  }
+  
+  const leads = await findLeads(state.orgId, target);
+  // "TechCorp" shouldn't need a pick just because "TechCorp Labs" exists
+  const exact = leads.filter((lead) => leadNames(lead).includes(target.toLowerCase()));
+  return exact.length === 1 ? exact : leads;
+}
+
+/**
+ * Earlier turns plus the lead in focus, so follow-ups like "mark them as won"
+ * right after "show me TechCorp" resolve to the right company.
+ */
+function formatConversationContext(state: AgentState): string {
+  const parts: string[] = [];
+  
+  if (state.history.length) {
+    const transcript = state.history
+      .map((t) => `${t.role}: ${t.content.slice(0, 300)}`)
+      .join("\n");
+    parts.push(`Conversation so far:\n${transcript}`);
+  }
+  if (state.selectedLead) {
+    parts.push(`Lead currently in focus: ${state.selectedLead.company_name} (${state.selectedLead.contact_name})`);
+  }
+  if (!parts.length) return "";
+  
+  return `${parts.join("\n\n")}
+
+If the message refers back to earlier context ("them", "her", "that lead"), use that company as the target.
+
+`;
+}
+
+async function understandRequest(state: AgentState): Promise<Partial<AgentState>> {
+  const unknown: AgentIntent = { type: "unknown", rawMessage: state.userMessage };
+  
+  try {
+    const response = await withRetry(() =>
+      llm.complete({
+        maxTokens: 512,
+        tools: INTENT_TOOLS,
+        toolChoice: "any",
+        messages: [{
+          role: "user",
+          content: `You are a CRM assistant. Call the one tool that matches this request.
+
+${formatConversationContext(state)}Message: "${state.userMessage}"`
+        }],
+      })
+    );
+    
+    const call = response.toolCall;
+    if (!call) return { intent: unknown };
+    
+    const result = validateIntent(call.name, call.input, state.userMessage);
+    if ("error" in result) {
+      console.error(`[understandRequest] Invalid ${call.name} call: ${result.error}`, call.input);
+      return { intent: unknown };
+    }
+    
+    return { intent: result.intent };
+  } catch (e) {
+    return { error: e.message, response: "I had trouble understanding that. Please try again." };
+  }
+}
+
+async function handleLookup(state: AgentState): Promise<Partial<AgentState>> {
+  try {
+    const filter = state.intent?.type === "lookup" ? state.intent.filter : {};
+    const description = describeLeadFilter(filter);
+    
+    const data = await repositories.leads.list(state.orgId, filter);
+    if (!data.length) return { response: `No leads found${description ? ` (${description})` : ""}.` };
+    
+    const lines = data.map((l, i) =>
+      `${i + 1}. **${l.company_name}** (${l.contact_name})\n   Score: ${l.score} | Status: ${l.status}` +
+      (l.estimated_value ? ` | Value: $${l.estimated_value.toLocaleString()}` : "")
+    );
+    
+    return {
+      leads: data,
+      // A single match becomes the lead in focus for the next message
+      selectedLead: data.length === 1 ? data[0] : state.selectedLead,
+      response: `Found ${data.length} lead(s)${description ? ` (${description})` : ""}:\n\n${lines.join("\n\n")}`,
+    };
+  } catch (e) {
+    return { error: e.message, response: "Failed to fetch leads. Please try again." };
+  }
+}
+
+async function handleUpdate(state: AgentState): Promise<Partial<AgentState>> {
+  const target = intentTarget(state.intent) || state.selectedLead?.company_name;
+  if (!target) return { response: "Which lead would you like to update?" };
+  
+  try {
+    const leads = await resolveLead(state);
+    
+    if (!leads.length) return { response: `Couldn't find "${target}".` };
+    if (leads.length > 1) return { candidates: leads };
+    
+    const lead = leads[0];
+    const changes = state.intent?.type === "update" ? state.intent.changes : {};
+    
+    if (!Object.keys(changes).length) {
+      return { response: `What would you like to change about ${lead.company_name}?`, selectedLead: lead };
+    }
+    
+    const policy = await checkUpdatePolicy(state.orgId, lead, changes);
+    if (typeof policy === "string") return { selectedLead: lead, response: policy };
+    if (policy.requiresApproval) {
+      return {
+        selectedLead: lead,
+        pendingAction: { type: "update_lead", leadId: lead.id, leadName: lead.company_name, changes, policy },
+        approvalStatus: "pending",
+        response: `⚠️ **Approval Required**\n\nUpdate ${lead.company_name} (Score: ${lead.score}):\n${formatChanges(lead, changes)}\n\n${describePolicy(policy)}`,
+      };
+    }
+    
+    // Execute directly
+    await updateLead(state, lead.id, changes);
+    return { selectedLead: lead, response: `✅ Updated ${lead.company_name}!\n${formatChanges(lead, changes)}` };
+  } catch (e) {
+    return { error: e.message, response: "Failed to update. Please try again." };
+  }
+}
+
+async function handleUndo(state: AgentState): Promise<Partial<AgentState>> {
+  const target = intentTarget(state.intent) || state.selectedLead?.company_name;
+  if (!target) return { response: "Which lead's last change should I undo?" };
+  
+  try {
+    const leads = await resolveLead(state);
+    
+    if (!leads.length) return { response: `Couldn't find "${target}".` };
+    if (leads.length > 1) return { candidates: leads };
+    
+    const lead = leads[0];
+    
+    const last = await findLastChange(lead);
+    if (!last) return { selectedLead: lead, response: `I have no changes to ${lead.company_name} that I can undo.` };
+    
+    // Don't clobber something a person changed after the agent did
+    const { before, after } = last.metadata;
+    const drifted = Object.keys(after).filter((field) => (lead[field as keyof Lead] ?? null) !== after[field as keyof LeadChanges]);
+    if (drifted.length) {
+      return {
+        selectedLead: lead,
+        response: `Can't undo "${last.description}": ${drifted.join(", ")} changed again since then.`,
+      };
+    }
+    
+    const changes = before as LeadChanges;
+    const policy = await checkUpdatePolicy(state.orgId, lead, changes, true);
+    if (typeof policy === "string") return { selectedLead: lead, response: `Can't undo "${last.description}": ${policy}` };
+    if (policy.requiresApproval) {
+      return {
+        selectedLead: lead,
+        pendingAction: { type: "update_lead", leadId: lead.id, leadName: lead.company_name, changes, reverts: last.id, policy },
+        approvalStatus: "pending",
+        response: `⚠️ **Approval Required**\n\nUndo on ${lead.company_name}:\n${formatChanges(lead, changes)}\n\n${describePolicy(policy)}`,
+      };
+    }
+    
+    await updateLead(state, lead.id, before, last.id);
+    return { selectedLead: { ...lead, ...changes }, response: `↩️ Undid "${last.description}" on ${lead.company_name}:\n${formatChanges(lead, changes)}` };
+  } catch (e) {
+    return { error: e.message, response: "Failed to undo. Please try again." };
+  }
+}
+
+async function handleQualify(state: AgentState): Promise<Partial<AgentState>> {
+  const target = intentTarget(state.intent) || state.selectedLead?.company_name;
+  if (!target) return { response: "Which lead would you like me to qualify?" };
+  
+  try {
+    const leads = await resolveLead(state);
+    
+    if (!leads.length) return { response: `Couldn't find "${target}".` };
+    if (leads.length > 1) return { candidates: leads };
+    
+    const lead = leads[0];
+    const qualification = await assessLead(lead, await loadRecentInteractions(lead));
+    const summary = `📊 **${lead.company_name}**: score ${lead.score} → ${qualification.score}\n\n${formatQualification(qualification)}`;
+    
+    const changes = { score: qualification.score };
+    const policy = await checkApprovalPolicy(state.orgId, "update_lead", lead, changes);
+    if (policy.requiresApproval) {
+      return {
+        selectedLead: lead,
+        pendingAction: {
+          type: "update_lead",
+          leadId: lead.id,
+          leadName: lead.company_name,
+          changes,
+          qualification,
+          policy,
+        },
+        approvalStatus: "pending",
+        response: `${summary}\n\n⚠️ The new score needs approval. ${describePolicy(policy)}`,
+      };
+    }
+    
+    await saveQualification(lead.id, qualification, state);
+    return { selectedLead: { ...lead, score: qualification.score }, response: `${summary}\n\n✅ Score saved.` };
+  } catch (e) {
+    return { error: e.message, response: "Failed to qualify the lead. Please try again." };
+  }
+}
+
+function formatChanges(lead: Lead, changes: LeadChanges): string {
+  return Object.entries(changes)
+    .map(([key, value]) => `- ${key}: ${lead[key as keyof Lead] ?? "(none)"} → ${value}`)
+    .join("\n");
+}
+
+async function handleFollowup(state: AgentState): Promise<Partial<AgentState>> {
+  const target = intentTarget(state.intent) || state.selectedLead?.company_name;
+  if (!target) return { response: "Who would you like to follow up with?" };
+  
+  try {
+    const leads = await resolveLead(state);
+    
+    if (!leads.length) return { response: `Couldn't find "${target}".` };
+    if (leads.length > 1) return { candidates: leads };
+    
+    const lead = leads[0];
+    if (lead.email_status) {
+      return {
+        selectedLead: lead,
+        response: `Not emailing ${lead.contact_name}: the last email to ${lead.contact_email} ${lead.email_status === "bounced" ? "bounced" : "was marked as spam"}.`,
+      };
+    }
+    
+    const requested = state.intent?.type === "followup" ? state.intent.template : undefined;
+    
+    let emailContent: EmailContent;
+    let draftSource: "llm" | "template" = "template";
+    let templateSlug: string | undefined;
+    
+    if (requested) {
+      // The user asked for a specific template: use it or explain why not
+      const template = await loadTemplate(state.orgId, requested);
+      if (!template) {
+        const available = await listTemplateNames(state.orgId);
+        return { selectedLead: lead, response: `I don't have a "${requested}" template. Available: ${available.join(", ") || "none"}.` };
+      }
+      const rendered = renderTemplate(template, lead);
+      if (Array.isArray(rendered)) {
+        return { selectedLead: lead, response: `Can't use the ${template.name} template for ${lead.company_name}: ${rendered.join(", ")}.` };
+      }
+      emailContent = rendered;
+      templateSlug = template.slug;
+    } else {
+      try {
+        const interactions = await loadRecentInteractions(lead, FOLLOWUP_CONTEXT_INTERACTIONS);
+        emailContent = await draftFollowupEmail(lead, interactions);
+        draftSource = "llm";
+      } catch (e) {
+        // A replay with nothing recorded must fail, not pass a template off
+        // as the model's draft
+        if (!isRetryable(e)) throw e;
+        console.error(`[handleFollowup] Falling back to template: ${e.message}`);
+        // The client may be showing part of a streamed draft; the template replaces it
+        emitEvent({ type: "token_reset" });
+        ({ email: emailContent, templateSlug } = await fallbackFollowupEmail(lead));
+      }
+    }
+    
+    // When no approval is needed, execute_approved sends it straight away
+    const policy = await checkApprovalPolicy(state.orgId, "send_email", lead);
+    return {
+      selectedLead: lead,
+      pendingAction: {
+        type: "send_email",
+        leadId: lead.id,
+        leadName: lead.company_name,
+        emailContent,
+        draftSource,
+        templateSlug,
+        policy,
+      },
+      approvalStatus: policy.requiresApproval ? "pending" : "approved",
+      response: policy.requiresApproval
+        ? `📧 Ready to send to ${lead.contact_name}:\n\n**Subject:** ${emailContent.subject}\n\n${emailContent.body}\n\n⏳ Awaiting approval... ${describePolicy(policy)}`
+        : null,
+    };
+  } catch (e) {
+    return { error: e.message, response: "Failed to prepare email. Please try again." };
+  }
+}
+
+async function handleOther(state: AgentState): Promise<Partial<AgentState>> {
+  return { response: `Try:\n• "Show me leads"\n• "Qualify GlobalRetail"\n• "Mark TechCorp as won"\n• "Send follow-up to Sophie"\n• "Undo the last change to TechCorp"` };
+}
+
+const MAX_CHOICES = 10;
+
+function formatChoices(leads: Lead[]): string {
+  return leads
+    .map((lead, i) => `${i + 1}. **${lead.company_name}** - ${lead.contact_name} (${lead.status}, score ${lead.score})`)
+    .join("\n");
+}
+
+// A number from the list, or a name that matches exactly one of the choices
+function parsePick(message: string, candidates: Lead[]): Lead | "out_of_range" | null {
+  const number = message.trim().match(/^(?:#|no\.?\s*|number\s*)?(\d+)\.?$/i);
+  if (number) return candidates[parseInt(number[1]) - 1] ?? "out_of_range";
+  
+  const text = message.toLowerCase();
+  const named = candidates.filter((lead) => leadNames(lead).some((name) => text.includes(name)));
+  return named.length === 1 ? named[0] : null;
+}
+
+/**
+ * When a name matches several leads, ask which one and pause. The user's
+ * next message resumes here: a valid pick pins the intent to that lead and
+ * goes back to the handler; anything else is treated as a new request.
+ */
+async function disambiguate(state: AgentState): Promise<Partial<AgentState>> {
+  const candidates = state.candidates ?? [];
+  
+  if (state.nextNode !== "disambiguate") {
+    return {
+      nextNode: "disambiguate",
+      response: `I found ${candidates.length} leads matching "${intentTarget(state.intent)}". Which one?\n\n${formatChoices(candidates)}\n\nReply with a number.`,
+    };
+  }
+  
+  const pick = parsePick(state.userMessage, candidates);
+  if (pick === "out_of_range") {
+    return { response: `Please pick a number from 1 to ${candidates.length}.\n\n${formatChoices(candidates)}` };
+  }
+  if (!pick) return { candidates: null, nextNode: null, intent: null };
+  
+  return {
+    intent: { ...state.intent!, leadId: pick.id } as AgentIntent,
+    selectedLead: pick,
+    candidates: null,
+    nextNode: null,
+  };
+}
+
+async function humanReview(state: AgentState): Promise<Partial<AgentState>> {
+  try {
+    // Resumed run: the action is already stored, see if someone decided.
+    // The stored decision always wins, so AUTO_APPROVE can't run a
+    // cancelled, expired or rejected action, or overturn an approval
+    if (state.pendingActionId) {
+      const decision = await getPendingActionDecision(state.orgId, state.pendingActionId);
+      if (decision.status !== "pending") {
+        return { approvalStatus: decision.status, reviewerId: decision.decided_by, nextNode: null };
+      }
+      return {
+        response: `⏳ Still waiting for approval: ${state.pendingAction?.type} for ${state.pendingAction?.leadName}.`,
+      };
+    }
+    
+    // AUTO_APPROVE short-circuits the wait for local testing
+    const auto = Deno.env.get("AUTO_APPROVE");
+    if (auto === "true") return { approvalStatus: "approved", reviewerId: "auto_approve" };
+    if (auto === "false") return { approvalStatus: "rejected", reviewerId: "auto_approve" };
+    
+    // First time here: persist the action and pause. The run is picked up
+    // again from its checkpoint when someone hits approve/reject.
+    const pendingActionId = await savePendingAction(state);
+    return { pendingActionId, nextNode: "human_review" };
+  } catch (e) {
+    return { error: e.message, response: "Failed to save the approval request. Please try again." };
+  }
+}
+
+async function executeApproved(state: AgentState): Promise<Partial<AgentState>> {
+  const pending = state.pendingAction;
+  if (!pending) return { error: "No pending action" };
+  
+  try {
+    if (state.pendingActionId) await logApprovalDecision(state);
+    
+    if (pending.type === "update_lead" && pending.changes) {
+      // The approval may be hours old: the lead has to still allow the
+      // change, under the same rule the reviewers signed off on
+      const lead = await findLeadById(state.orgId, pending.leadId);
+      if (!lead) return { response: `❌ Not applied: ${pending.leadName} no longer exists.`, pendingAction: null, approvalStatus: null };
+      const policy = await checkUpdatePolicy(state.orgId, lead, pending.changes, !!pending.reverts);
+      if (typeof policy === "string") return { response: `❌ Not applied: ${policy}`, pendingAction: null, approvalStatus: null };
+      if (pending.policy && !samePolicy(policy, pending.policy)) {
+        return {
+          response: `❌ Not applied: ${pending.leadName} changed since this was approved and now needs different approval. Ask again.`,
+          pendingAction: null,
+          approvalStatus: null,
+        };
+      }
+    }
+    
+    if (pending.type === "update_lead" && pending.qualification) {
+      await saveQualification(pending.leadId, pending.qualification, state);
+      return { response: `✅ Saved new score for ${pending.leadName}: ${pending.qualification.score}`, pendingAction: null, approvalStatus: null };
+    }
+    
+    if (pending.type === "update_lead" && pending.changes) {
+      await updateLead(state, pending.leadId, pending.changes, pending.reverts);
+      const verb = pending.reverts ? "Reverted" : "Updated";
+      return { response: `✅ ${verb} ${pending.leadName}!`, pendingAction: null, approvalStatus: null };
+    }
+    
+    if (pending.type === "send_email" && pending.emailContent) {
+      // Last check before anything leaves the building
+      const { subject, body } = pending.emailContent;
+      if (hasPlaceholder(subject) || hasPlaceholder(body)) {
+        return { error: "Unfilled template placeholder", response: "❌ Not sent: the email still contains a {{placeholder}}." };
+      }
+      
+      const result = await sendEmail(
+        pending.emailContent.to,
+        pending.emailContent.subject,
+        pending.emailContent.body
+      );
+      
+      if (!result.success) return { error: result.error, response: `❌ Failed: ${result.error}` };
+      
+      await logInteraction({
+        org_id: state.orgId,
+        lead_id: pending.leadId,
+        interaction_type: "email_sent",
+        description: `Sent: "${pending.emailContent.subject}"`,
+        performed_by: state.userId,
+        required_approval: pending.policy?.requiresApproval ?? true,
+        approved: true,
+        approved_by: state.reviewerId,
+        metadata: {
+          message_id: result.messageId && normalizeMessageId(result.messageId),
+          provider_id: result.providerId,
+          draft_source: pending.draftSource,
+          template: pending.templateSlug,
+          policy_rule: pending.policy?.rule?.id,
+          ...editMetadata(pending),
+          actor: "agent",
+        },
+      });
+      
+      await repositories.leads.update(state.orgId, pending.leadId, { last_contacted_at: new Date().toISOString() });
+      return { response: `✅ Email sent!`, pendingAction: null, approvalStatus: null };
+    }
+    
+    return { error: "Unknown action type" };
+  } catch (e) {
+    return { error: e.message, response: "Failed to carry out the approved action. Please try again." };
+  }
+}
+
+const REJECTION_RESPONSES: Partial<Record<ReviewStatus, string>> = {
+  rejected: "❌ Action rejected.",
+  cancelled: "🚫 Cancelled by the requester.",
+  expired: "⌛ Nobody approved this in time, so nothing was done.",
+};
+
+async function handleRejection(state: AgentState): Promise<Partial<AgentState>> {
+  if (state.pendingAction && state.pendingActionId) await logApprovalDecision(state);
+  const response = REJECTION_RESPONSES[state.approvalStatus ?? "rejected"] ?? REJECTION_RESPONSES.rejected;
+  return { response, pendingAction: null, approvalStatus: null };
+}
+
+// ============================================
+// Routing
+// ============================================
+
+// A run restored from a paused checkpoint skips classification and goes
+// straight back to the node it stopped at.
+function routeEntry(state: AgentState): string {
+  if (state.nextNode === "human_review") return "human_review";
+  if (state.nextNode === "disambiguate") return "disambiguate";
+  // API calls that already know the intent skip the classifier
+  if (state.intent) return routeByIntent(state);
+  return "understand_request";
+}
+
+function routeByIntent(state: AgentState): string {
+  if (state.error) return "end";
+  switch (state.intent?.type) {
+    case "lookup": return "handle_lookup";
+    case "qualify": return "handle_qualify";
+    case "update": return "handle_update";
+    case "followup": return "handle_followup";
+    case "undo": return "handle_undo";
+    default: return "handle_other";
+  }
+}
+
+function routeAfterAction(state: AgentState): string {
+  if (state.candidates?.length) return "disambiguate";
+  if (state.approvalStatus === "pending") return "human_review";
+  if (state.approvalStatus === "approved") return "execute_approved";
+  return "end";
+}
+
+// Still waiting for a pick → stop; picked → the original handler;
+// changed the subject → classify the new message
+function routeAfterDisambiguation(state: AgentState): string {
+  if (state.nextNode === "disambiguate") return "end";
+  if (!state.intent) return "understand_request";
+  return routeByIntent(state);
+}
+
+function routeAfterReview(state: AgentState): string {
+  if (state.approvalStatus === "approved") return "execute_approved";
+  if (state.approvalStatus && state.approvalStatus !== "pending") return "handle_rejection";
+  return "end";
+}
+
+// ============================================
+// Graph
+// ============================================
+
+// Nodes return `null` to clear a field (e.g. pendingAction after execution),
+// so only a missing key keeps the previous value - `b ?? a` would swallow the null.
+const replace = <T>(a: T, b: T) => (b === undefined ? a : b);
+
+const workflow = new StateGraph<AgentState>({
+  channels: {
+    threadId: { value: replace },
+    orgId: { value: replace },
+    userId: { value: replace },
+    reviewerId: { value: replace },
+    nextNode: { value: replace },
+    history: { value: replace },
+    userMessage: { value: replace },
+    intent: { value: replace },
+    leads: { value: replace },
+    selectedLead: { value: replace },
+    candidates: { value: replace },
+    pendingAction: { value: replace },
+    pendingActionId: { value: replace },
+    approvalStatus: { value: replace },
+    response: { value: replace },
+    error: { value: replace },
+  },
+});
+
+workflow.addNode("start", async () => ({}));
+workflow.addNode("understand_request", traced("understand_request", understandRequest));
+workflow.addNode("handle_lookup", traced("handle_lookup", handleLookup));
+workflow.addNode("handle_qualify", traced("handle_qualify", handleQualify));
+workflow.addNode("handle_update", traced("handle_update", handleUpdate));
+workflow.addNode("handle_followup", traced("handle_followup", handleFollowup));
+workflow.addNode("handle_undo", traced("handle_undo", handleUndo));
+workflow.addNode("handle_other", traced("handle_other", handleOther));
+workflow.addNode("disambiguate", traced("disambiguate", disambiguate));
+workflow.addNode("human_review", traced("human_review", humanReview));
+workflow.addNode("execute_approved", traced("execute_approved", executeApproved));
+workflow.addNode("handle_rejection", traced("handle_rejection", handleRejection));
+
+workflow.setEntryPoint("start");
+
+workflow.addConditionalEdges("start", routeEntry, {
+  understand_request: "understand_request",
+  human_review: "human_review",
+  disambiguate: "disambiguate",
+  handle_lookup: "handle_lookup",
+  handle_qualify: "handle_qualify",
+  handle_update: "handle_update",
+  handle_followup: "handle_followup",
+  handle_undo: "handle_undo",
+  handle_other: "handle_other",
+  end: END,
+});
+
+workflow.addConditionalEdges("understand_request", routeByIntent, {
+  handle_lookup: "handle_lookup",
+  handle_qualify: "handle_qualify",
+  handle_update: "handle_update",
+  handle_followup: "handle_followup",
+  handle_undo: "handle_undo",
+  handle_other: "handle_other",
+  end: END,
 });
+
+workflow.addConditionalEdges("handle_qualify", routeAfterAction, {
+  disambiguate: "disambiguate",
+  human_review: "human_review",
+  execute_approved: "execute_approved",
+  end: END,
+});
+workflow.addConditionalEdges("handle_update", routeAfterAction, {
+  disambiguate: "disambiguate",
+  human_review: "human_review",
+  execute_approved: "execute_approved",
+  end: END,
+});
+workflow.addConditionalEdges("handle_followup", routeAfterAction, {
+  disambiguate: "disambiguate",
+  human_review: "human_review",
+  execute_approved: "execute_approved",
+  end: END,
+});
+workflow.addConditionalEdges("handle_undo", routeAfterAction, {
+  disambiguate: "disambiguate",
+  human_review: "human_review",
+  execute_approved: "execute_approved",
+  end: END,
+});
+workflow.addConditionalEdges("disambiguate", routeAfterDisambiguation, {
+  understand_request: "understand_request",
+  handle_lookup: "handle_lookup",
+  handle_qualify: "handle_qualify",
+  handle_update: "handle_update",
+  handle_followup: "handle_followup",
+  handle_undo: "handle_undo",
+  handle_other: "handle_other",
+  end: END,
+});
+workflow.addConditionalEdges("human_review", routeAfterReview, {
+  execute_approved: "execute_approved",
+  handle_rejection: "handle_rejection",
+  end: END,
+});
+
+workflow.addEdge("handle_lookup", END);
+workflow.addEdge("handle_other", END);
+workflow.addEdge("execute_approved", END);
+workflow.addEdge("handle_rejection", END);
+
+const app = workflow.compile();
+
+// ============================================
+// Agent Runner
+// ============================================
+
+function createInitialState(
+  message: string,
+  threadId: string = crypto.randomUUID(),
+  userId: string | null = currentUserId(),
+  orgId: string | null = currentOrgId()
+): AgentState {
+  return {
+    threadId,
+    orgId,
+    userId,
+    reviewerId: null,
+    nextNode: null,
+    history: [],
+    userMessage: message,
+    intent: null,
+    leads: [],
+    selectedLead: null,
+    candidates: null,
+    pendingAction: null,
+    pendingActionId: null,
+    approvalStatus: null,
+    response: null,
+    error: null,
+  };
+}
+
+function toAgentResponse(result: AgentState): AgentResponse {
+  return {
+    success: !result.error,
+    message: result.response || "No response",
+    conversationId: result.threadId,
+    data: {
+      leads: result.leads?.length ? result.leads : undefined,
+      choices: result.candidates?.length ? result.candidates : undefined,
+      pendingApproval: result.pendingAction && result.pendingActionId ? {
+        actionId: result.pendingActionId,
+        type: result.pendingAction.type,
+        description: `${result.pendingAction.type} for ${result.pendingAction.leadName}`,
+      } : undefined,
+    },
+    error: result.error || undefined,
+  };
+}
+
+async function invokeWithCheckpoint(state: AgentState): Promise<AgentState> {
+  const result = await app.invoke(state);
+  await checkpointer.save(result);
+  return result;
+}
+
+/**
+ * Run the agent for one message.
+ * 
+ * Pass the conversationId from a previous response to continue that
+ * conversation: the classifier sees the earlier turns and the lead that was
+ * in focus. If the conversation is waiting for a pick from a choice list,
+ * the message is that pick. A conversation waiting at human_review is only
+ * resumed by the decision (resumeApproval): a message meanwhile is a new
+ * request, and the action stays pending.
+ */
+async function runAgent(message: string, conversationId?: string): Promise<AgentResponse> {
+  const id = conversationId ?? crypto.randomUUID();
+  
+  try {
+    await touchConversation(id, currentUserId());
+    const saved = conversationId ? await checkpointer.load(id) : null;
+    const state: AgentState = saved?.nextNode === "disambiguate" ? { ...saved, userMessage: message, response: null } : {
+      ...createInitialState(message, id),
+      history: await loadHistory(id),
+      selectedLead: saved?.selectedLead ?? null,
+    };
+    
+    const result = await invokeWithCheckpoint(state);
+    await appendMessages(id, [
+      { role: "user", content: message },
+      { role: "assistant", content: result.response || "" },
+    ]);
+    return toAgentResponse(result);
+  } catch (e) {
+    return { success: false, message: "Agent failed", conversationId: id, error: e.message };
+  }
+}
+
+/**
+ * POST /leads/:id/undo - the API twin of "undo the last change to X". Goes
+ * through the graph (with the intent already filled in) so approval
+ * policies apply just like they do in chat.
+ */
+async function undoLastChange(leadId: string): Promise<AgentResponse> {
+  try {
+    const state: AgentState = {
+      ...createInitialState(`Undo the last change to lead ${leadId}`),
+      intent: { type: "undo", target: leadId, leadId },
+    };
+    // A thread of its own, so an approval can report back to it later
+    await touchConversation(state.threadId, currentUserId());
+    return toAgentResponse(await invokeWithCheckpoint(state));
+  } catch (e) {
+    return { success: false, message: "Undo failed", error: e.message };
+  }
+}
+
+// Anonymous rows (no requester) can't be matched to anyone
+function isRequester(row: PendingActionRow): boolean {
+  return row.requested_by !== null && row.requested_by === currentUserId();
+}
+
+// Run a decided action's thread from human_review to the end
+async function finishReview(row: PendingActionRow): Promise<AgentResponse> {
+  // Rows written before checkpointing existed have no thread to resume, and
+  // a thread that moved on to other messages has no longer stopped at this
+  // action, so rebuild a paused state from the stored snapshot instead.
+  // The row's copy of the action wins: an approver may have edited it
+  const saved = row.thread_id ? await checkpointer.load(row.thread_id) : null;
+  const paused = saved?.nextNode === "human_review" && saved.pendingActionId === row.id ? saved : null;
+  const state: AgentState = paused ? { ...paused, pendingAction: row.action } : {
+    ...createInitialState(row.user_message ?? "", row.thread_id ?? undefined, row.requested_by, row.org_id),
+    selectedLead: row.lead_snapshot,
+    pendingAction: row.action,
+    pendingActionId: row.id,
+    approvalStatus: "pending",
+    nextNode: "human_review",
+  };
+  
+  const result = await invokeWithCheckpoint(state);
+  if (row.thread_id) {
+    await appendMessages(row.thread_id, [{ role: "assistant", content: result.response || "" }]);
+  }
+  return toAgentResponse(result);
+}
+
+/**
+ * Apply a reviewer's decision to a stored pending action.
+ * 
+ * Actions can need several sign-offs (policy.steps). Approving an earlier
+ * step just moves the row on to the next approvers; the last approval, or
+ * any rejection, decides it. Each update is conditional on the step the
+ * reviewer saw, so a double-clicked Approve button can't count twice or
+ * send the same email twice. A decided action resumes from the thread's
+ * checkpoint at human_review, which picks up the decision from the row.
+ */
+async function resumeApproval(
+  actionId: string,
+  decision: "approved" | "rejected",
+  edits?: ApprovalEdits
+): Promise<AgentResponse> {
+  try {
+    const row = await repositories.pendingActions.get(currentOrgId(), actionId);
+    if (!row) {
+      return { success: false, message: "Nothing to review", error: `No pending action with id ${actionId}` };
+    }
+    if (row.status !== "pending") {
+      return { success: false, message: "Nothing to review", error: `This action was already ${row.status}` };
+    }
+    
+    // Rows from before approval policies have no roles: anyone may decide
+    const role = currentRole();
+    if (row.approver_roles && (!role || !row.approver_roles.includes(role))) {
+      return {
+        success: false,
+        message: "Not allowed to review",
+        error: `This step needs approval from ${describeApprovers(row.approver_roles)}`,
+      };
+    }
+    // Whatever their role, nobody reviews their own request
+    if (isRequester(row)) {
+      return {
+        success: false,
+        message: "Not allowed to review",
+        error: "You requested this action - someone else has to review it (or cancel it)",
+      };
+    }
+    if (decision === "approved" && (await hasApprovedEarlierStep(row.id, currentUserId()))) {
+      return { success: false, message: "Not allowed to review", error: "You already approved an earlier step" };
+    }
+    
+    let action: PendingAction = row.action;
+    if (edits && decision === "approved") {
+      const edited = applyApprovalEdits(action, edits);
+      if (Array.isArray(edited)) {
+        return { success: false, message: "Invalid edits", error: edited.join(", ") };
+      }
+      
+      // Edited changes go through the policy again, against the lead as it
+      // is now: they have to be allowed at all, and need the same sign-offs
+      // as the chain this action is already on
+      if (edited.changes && JSON.stringify(edited.changes) !== JSON.stringify(action.changes)) {
+        const lead = await findLeadById(row.org_id, row.lead_id);
+        if (!lead) return { success: false, message: "Invalid edits", error: `Lead ${row.lead_id} no longer exists` };
+        
+        const policy = await checkUpdatePolicy(row.org_id, lead, edited.changes, !!action.reverts);
+        if (typeof policy === "string") return { success: false, message: "Invalid edits", error: policy };
+        // Rows from before approval policies have no chain to compare with
+        if (row.policy && !samePolicy(policy, row.policy)) {
+          return {
+            success: false,
+            message: "Invalid edits",
+            error: `These changes need different approval (${policy.requiresApproval ? describePolicy(policy) : "none at all"}). Reject this one and ask for them separately.`,
+          };
+        }
+      }
+      action = edited;
+    }
+    
+    const steps: OrgRole[][] = row.policy?.steps ?? [];
+    const nextStep = row.current_step + 1;
+    const isFinal = decision === "rejected" || nextStep >= steps.length;
+    
+    const claimed = await repositories.pendingActions.claim(
+      row.org_id,
+      row.id,
+      { current_step: row.current_step },
+      isFinal
+        ? { action, status: decision, decided_at: new Date().toISOString(), decided_by: currentUserId() }
+        : { action, current_step: nextStep, approver_roles: steps[nextStep] }
+    );
+    if (!claimed) {
+      return { success: false, message: "Nothing to review", error: "Someone else just reviewed this action" };
+    }
+    
+    await recordApprovalStep(row, decision);
+    if (isFinal) return await finishReview(claimed);
+    
+    return {
+      success: true,
+      message: `✅ Approved step ${nextStep} of ${steps.length}. Now waiting for ${describeApprovers(steps[nextStep])}.`,
+      conversationId: row.thread_id ?? undefined,
+      data: {
+        pendingApproval: {
+          actionId: row.id,
+          type: row.action_type,
+          description: `${row.action_type} for ${row.action?.leadName}`,
+        },
+      },
+    };
+  } catch (e) {
+    return { success: false, message: "Failed to process approval", error: e.message };
+  }
+}
+
+/**
+ * Withdraw an action you asked for. Only the requester can cancel, and only
+ * while nobody has made the final decision.
+ */
+async function cancelApproval(actionId: string): Promise<AgentResponse> {
+  try {
+    const row = await repositories.pendingActions.claim(
+      currentOrgId(),
+      actionId,
+      { requested_by: currentUserId() },
+      { status: "cancelled", decided_at: new Date().toISOString(), decided_by: currentUserId() }
+    );
+    if (!row) {
+      return {
+        success: false,
+        message: "Nothing to cancel",
+        error: `No pending action with id ${actionId} that you requested`,
+      };
+    }
+    
+    await recordApprovalStep(row, "cancelled");
+    return await finishReview(row);
+  } catch (e) {
+    return { success: false, message: "Failed to cancel", error: e.message };
+  }
+}
+
+/**
+ * Auto-reject the organization's approval requests that are past their
+ * expires_at. Edge Functions have no scheduler, so this runs at the start of
+ * every request; each expired thread is finished like a rejection, which logs
+ * the human_approval interaction.
+ */
+async function expireStaleApprovals(): Promise<void> {
+  const rows = await repositories.pendingActions.expire(currentOrgId(), new Date().toISOString());
+  for (const row of rows) {
+    try {
+      await recordApprovalStep(row, "expired");
+      await finishReview(row);
+    } catch (e) {
+      console.error(`[expireStaleApprovals] ${row.id}: ${e.message}`);
+    }
+  }
+}
+
+// ============================================
+// Approval Inbox
+// ============================================
+// What managers see: everything waiting in their organization, not just the
+// actions they asked for.
+//
+//   GET  /approvals?type=send_email&lead_id=…&requested_by=…&min_age_hours=24
+//   GET  /approvals/:id
+//   POST /approvals/:id   { "decision": "approve" | "reject" | "cancel", "edits"?: {...} }
+
+interface ApprovalFilter {
+  status: ReviewStatus;
+  leadId?: string;
+  requestedBy?: string;
+  type?: PendingAction["type"];
+  minAgeHours?: number;               // Waiting at least this long
+  maxAgeHours?: number;               // Waiting at most this long
+}
+
+// What an approver can change before approving
+interface ApprovalEdits {
+  subject?: string;
+  body?: string;
+  changes?: LeadChanges;
+}
+
+const REVIEW_STATUSES: ReviewStatus[] = ["pending", "approved", "rejected", "cancelled", "expired"];
+
+function parseApprovalFilter(params: URLSearchParams): ApprovalFilter | string {
+  const status = (params.get("status") || "pending") as ReviewStatus;
+  if (!REVIEW_STATUSES.includes(status)) return `status must be one of ${REVIEW_STATUSES.join(", ")}`;
+  
+  const type = params.get("type") || undefined;
+  if (type && type !== "update_lead" && type !== "send_email") return "type must be update_lead or send_email";
+  
+  const filter: ApprovalFilter = {
+    status,
+    type: type as PendingAction["type"] | undefined,
+    leadId: params.get("lead_id") || undefined,
+    requestedBy: params.get("requested_by") || undefined,
+  };
+  
+  for (const [param, key] of [["min_age_hours", "minAgeHours"], ["max_age_hours", "maxAgeHours"]] as const) {
+    const raw = params.get(param);
+    if (raw === null) continue;
+    const hours = Number(raw);
+    if (!Number.isFinite(hours) || hours < 0) return `${param} must be a positive number`;
+    filter[key] = hours;
+  }
+  return filter;
+}
+
+function hoursAgo(hours: number): string {
+  return new Date(Date.now() - hours * 3600_000).toISOString();
+}
+
+function toApprovalView(row: PendingActionRow, currentLead?: Lead | null): ApprovalView {
+  const action: PendingAction = row.action;
+  const role = currentRole();
+  const before: Partial<Lead> = currentLead ?? row.lead_snapshot ?? {};
+  
+  return {
+    actionId: row.id,
+    type: row.action_type,
+    status: row.status,
+    leadId: row.lead_id,
+    leadName: action.leadName,
+    requestedBy: row.requested_by,
+    requestedAt: row.created_at,
+    expiresAt: row.expires_at,
+    userMessage: row.user_message,
+    policyRule: row.policy?.rule?.name ?? null,
+    step: row.current_step,
+    totalSteps: Math.max(row.policy?.steps?.length ?? 1, 1),
+    approverRoles: row.approver_roles,
+    canDecide: row.status === "pending" && !isRequester(row) &&
+      (!row.approver_roles || (!!role && row.approver_roles.includes(role))),
+    diff: action.changes
+      ? Object.entries(action.changes).map(([field, after]) => ({
+        field: field as keyof LeadChanges,
+        before: before[field as keyof Lead] ?? null,
+        after,
+      }))
+      : undefined,
+    email: action.emailContent,
+  };
+}
+
+async function listApprovals(filter: ApprovalFilter): Promise<AgentResponse> {
+  try {
+    const rows = await repositories.pendingActions.list(currentOrgId(), filter, MAX_LOOKUP_LIMIT);
+    const approvals = rows.map((row) => toApprovalView(row));
+    return {
+      success: true,
+      message: approvals.length ? `${approvals.length} action(s) ${filter.status}` : `No actions ${filter.status}`,
+      data: { approvals },
+    };
+  } catch (e) {
+    return { success: false, message: "Failed to load approvals", error: e.message };
+  }
+}
+
+async function getApproval(actionId: string): Promise<AgentResponse> {
+  try {
+    const row = await repositories.pendingActions.get(currentOrgId(), actionId);
+    if (!row) return { success: false, message: "Not found", error: `No pending action with id ${actionId}` };
+    
+    // Diff against the lead as it is now - it may have changed since the request
+    const lead = await repositories.leads.get(currentOrgId(), row.lead_id);
+    
+    const approval = toApprovalView(row, lead);
+    const preview = approval.email
+      ? `📧 To ${approval.email.to}\n\n**Subject:** ${approval.email.subject}\n\n${approval.email.body}`
+      : (approval.diff ?? []).map((d) => `- ${d.field}: ${d.before ?? "(none)"} → ${d.after}`).join("\n");
+    
+    return {
+      success: true,
+      message: `${row.action_type} for ${approval.leadName}\n\n${preview}`,
+      conversationId: row.thread_id ?? undefined,
+      data: { approval },
+    };
+  } catch (e) {
+    return { success: false, message: "Failed to load approval", error: e.message };
+  }
+}
+
+/**
+ * Apply an approver's edits to a pending action, or list what's wrong with
+ * them. Emails can have their subject/body rewritten; updates their changes.
+ * The agent's original draft is kept on the action so the executed
+ * interaction can record both versions.
+ */
+function applyApprovalEdits(action: PendingAction, edits: ApprovalEdits): PendingAction | string[] {
+  const edited = validateApprovalEdits(action, edits);
+  if (Array.isArray(edited)) return edited;
+  
+  const draft = (a: PendingAction): ActionDraft => ({ emailContent: a.emailContent, changes: a.changes });
+  if (JSON.stringify(draft(edited)) === JSON.stringify(draft(action))) return action;
+  
+  // Keep the agent's version from before the first edit, however many
+  // approvers touch it after that
+  return {
+    ...edited,
+    original: action.original ?? draft(action),
+    editedBy: [...(action.editedBy ?? []), currentUserId() ?? "unknown"],
+  };
+}
+
+function validateApprovalEdits(action: PendingAction, edits: ApprovalEdits): PendingAction | string[] {
+  const problems: string[] = [];
+  
+  if (action.type === "send_email" && action.emailContent) {
+    if (edits.changes) problems.push("an email has no changes to edit");
+    const subject = (edits.subject ?? action.emailContent.subject).trim();
+    const body = (edits.body ?? action.emailContent.body).trim();
+    
+    if (!subject) problems.push("subject is empty");
+    if (subject.length > MAX_SUBJECT_CHARS) problems.push(`subject is over ${MAX_SUBJECT_CHARS} characters`);
+    if (!body) problems.push("body is empty");
+    if (hasPlaceholder(subject) || hasPlaceholder(body)) problems.push("still contains a {{placeholder}}");
+    
+    return problems.length ? problems : { ...action, emailContent: { ...action.emailContent, subject, body } };
+  }
+  
+  if (edits.subject !== undefined || edits.body !== undefined) problems.push("only emails have a subject and body");
+  if (!edits.changes) return problems.length ? problems : action;
+  
+  const changes = validateChanges(edits.changes);
+  if (typeof changes === "string") return [...problems, changes];
+  if (!Object.keys(changes).length) problems.push("changes is empty");
+  if (action.qualification && Object.keys(changes).some((k) => k !== "score")) {
+    problems.push("a qualification can only change the score");
+  }
+  if (problems.length) return problems;
+  
+  return {
+    ...action,
+    changes,
+    qualification: action.qualification && changes.score !== undefined
+      ? { ...action.qualification, score: changes.score }
+      : action.qualification,
+  };
+}
+
+// ============================================
+// Streaming
+// ============================================
+// With `Accept: text/event-stream` the handler streams progress instead of
+// making the UI wait for the whole classify → query → draft chain:
+//
+//   event: node_start   data: {"type":"node_start","node":"handle_followup"}
+//   event: token        data: {"type":"token","text":"Hi Sophie"}
+//   event: node_end     data: {"type":"node_end","node":"handle_followup","durationMs":2140}
+//   event: response     data: {"type":"response","response":{...AgentResponse}}
+//
+// The event sink lives in AsyncLocalStorage, so nodes just call emitEvent()
+// and concurrent requests never see each other's events.
+
+const agentEvents = new AsyncLocalStorage<(event: AgentEvent) => void>();
+
+function emitEvent(event: AgentEvent): void {
+  agentEvents.getStore()?.(event);
+}
+
+// Wrap a node so it reports when it starts and finishes
+function traced<S>(node: string, fn: (state: S) => Promise<Partial<S>>) {
+  return async (state: S): Promise<Partial<S>> => {
+    const started = Date.now();
+    emitEvent({ type: "node_start", node });
+    try {
+      return await fn(state);
+    } finally {
+      emitEvent({ type: "node_end", node, durationMs: Date.now() - started });
+    }
+  };
+}
+
+function wantsEventStream(req: Request): boolean {
+  return req.headers.get("accept")?.includes("text/event-stream") ?? false;
+}
+
+function eventStreamResponse(run: () => Promise<AgentResponse>): Response {
+  const encoder = new TextEncoder();
+  
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: AgentEvent) => {
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+      try {
+        const response = await agentEvents.run(send, run);
+        send({ type: "response", response });
+      } catch (e) {
+        console.error("Stream error:", e);
+        send({ type: "response", response: { success: false, message: "Agent failed", error: e.message } });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+  
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
+}
+
+// ============================================
+// Email Webhooks
+// ============================================
+// Resend calls POST /webhooks/email when something happens to an email we
+// sent (delivered, opened, bounced, marked as spam) and when a lead replies.
+// Each event becomes an interaction on the matching lead.
+//
+// Resend signs webhooks the Svix way: HMAC-SHA256 over
+// "<svix-id>.<svix-timestamp>.<raw body>" with the base64 part of the
+// whsec_... secret, sent as "v1,<base64 signature>" (possibly several,
+// space-separated, during secret rotation).
+
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+interface EmailWebhookEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id?: string;
+    from?: string;
+    to?: string[];
+    subject?: string;
+    text?: string;
+    headers?: { name: string; value: string }[];
+    bounce?: { message?: string };
+  };
+}
+
+const WEBHOOK_INTERACTIONS: Record<string, InteractionType> = {
+  "email.delivered": "email_delivered",
+  "email.opened": "email_opened",
+  "email.bounced": "email_bounced",
+  "email.complained": "email_complained",
+  "email.received": "email_received",
+};
+
+// null when the value isn't valid base64
+function base64ToBytes(value: string) {
+  try {
+    return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+async function verifyWebhookSignature(req: Request, rawBody: string): Promise<boolean> {
+  const secret = Deno.env.get("RESEND_WEBHOOK_SECRET");
+  const id = req.headers.get("svix-id");
+  const timestamp = req.headers.get("svix-timestamp");
+  const signatures = req.headers.get("svix-signature");
+  if (!secret || !id || !timestamp || !signatures) return false;
+  
+  // Reject stale events so a captured request can't be replayed later
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > WEBHOOK_TOLERANCE_SECONDS) return false;
+  
+  const secretBytes = base64ToBytes(secret.replace(/^whsec_/, ""));
+  if (!secretBytes) throw new Error("RESEND_WEBHOOK_SECRET is not a valid whsec_ secret");
+  
+  const key = await crypto.subtle.importKey(
+    "raw",
+    secretBytes,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  const signed = new TextEncoder().encode(`${id}.${timestamp}.${rawBody}`);
+  
+  for (const candidate of signatures.split(" ")) {
+    const [version, signature] = candidate.split(",");
+    const signatureBytes = signature ? base64ToBytes(signature) : null;
+    if (version !== "v1" || !signatureBytes) continue;
+    // subtle.verify compares in constant time
+    if (await crypto.subtle.verify("HMAC", key, signatureBytes, signed)) return true;
+  }
+  return false;
+}
+
+// "Sophie Martin <sophie@techcorp.io>" → "sophie@techcorp.io"
+function extractAddress(value: string | undefined): string | null {
+  if (!value) return null;
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+/**
+ * Find the lead an event is about: first by the ids we stored when sending
+ * (in interactions.metadata), then by the contact's email address.
+ */
+async function matchWebhookLead(event: EmailWebhookEvent): Promise<Lead | null> {
+  const inbound = event.type === "email.received";
+  
+  // Replies point at our Message-ID through In-Reply-To; delivery events
+  // carry the provider's id for the email
+  const replyTo = event.data.headers?.find((h) => h.name.toLowerCase() === "in-reply-to")?.value;
+  const [key, id] = inbound
+    ? ["message_id", replyTo && normalizeMessageId(replyTo)]
+    : ["provider_id", event.data.email_id];
+  
+  if (id) {
+    const sent = await repositories.interactions.findByMetadata(key, id, "email_sent");
+    if (sent) {
+      const lead = await repositories.leads.get(null, sent.lead_id);
+      if (lead) return lead;
+    }
+  }
+  
+  const address = extractAddress(inbound ? event.data.from : event.data.to?.[0]);
+  if (!address) return null;
+  return await repositories.leads.findByEmail(address);
+}
+
+function describeWebhookEvent(event: EmailWebhookEvent): string {
+  const subject = event.data.subject ? `"${event.data.subject}"` : "email";
+  switch (event.type) {
+    case "email.delivered": return `Delivered: ${subject}`;
+    case "email.opened": return `Opened: ${subject}`;
+    case "email.bounced": return `Bounced: ${subject}${event.data.bounce?.message ? ` (${event.data.bounce.message})` : ""}`;
+    case "email.complained": return `Marked as spam: ${subject}`;
+    default: return `Reply received: ${subject}`;
+  }
+}
+
+async function handleEmailWebhook(req: Request): Promise<Response> {
+  const rawBody = await req.text();
+  if (!(await verifyWebhookSignature(req, rawBody))) {
+    return jsonResponse({ error: "Invalid signature" }, 401);
+  }
+  
+  const webhookId = req.headers.get("svix-id")!;
+  const event: EmailWebhookEvent = JSON.parse(rawBody);
+  const interactionType = WEBHOOK_INTERACTIONS[event.type];
+  
+  // Anything we don't track, or can't tie to a lead, is acknowledged with a
+  // 200 anyway - otherwise the provider keeps retrying it
+  if (!interactionType) return jsonResponse({ received: true, ignored: "event type" });
+  
+  // Providers retry on timeouts, so the same event can arrive twice
+  const seen = await repositories.interactions.findByMetadata("webhook_id", webhookId);
+  if (seen) return jsonResponse({ received: true, duplicate: true });
+  
+  const lead = await matchWebhookLead(event);
+  if (!lead) return jsonResponse({ received: true, ignored: "no matching lead" });
+  
+  await logInteraction({
+    org_id: lead.org_id,
+    lead_id: lead.id,
+    interaction_type: interactionType,
+    description: describeWebhookEvent(event),
+    performed_by: event.type === "email.received" ? "contact" : "system",
+    metadata: {
+      webhook_id: webhookId,
+      event_type: event.type,
+      provider_id: event.data.email_id,
+      ...(event.type === "email.received" && event.data.text ? { text: event.data.text.slice(0, 5000) } : {}),
+    },
+  });
+  
+  // A reply is real contact: bump last_contacted_at, and a brand-new lead
+  // that writes back has clearly been contacted. It also shows the address
+  // works again after a bounce.
+  if (event.type === "email.received") {
+    const changes: Partial<Lead> = { last_contacted_at: event.created_at || new Date().toISOString(), email_status: null };
+    if (lead.status === "new") changes.status = "contacted";
+    await repositories.leads.update(lead.org_id, lead.id, changes);
+  }
+  
+  // Flag the address so the agent stops emailing it
+  if (event.type === "email.bounced" || event.type === "email.complained") {
+    const emailStatus = event.type === "email.bounced" ? "bounced" : "complained";
+    await repositories.leads.update(lead.org_id, lead.id, { email_status: emailStatus });
+  }
+  
+  return jsonResponse({ received: true, leadId: lead.id });
+}
+
+// ============================================
+// Edge Function Handler
+// ============================================
+
+// A POST body. Nothing checks the shape, so the fields are only what the
+// client says they are; edits are validated before they're used.
+interface RequestBody {
+  message?: string;
+  conversationId?: string;
+  orgId?: string;
+  action?: "approve" | "reject" | "cancel";     // POST / with the actionId
+  actionId?: string;
+  decision?: "approve" | "reject" | "cancel";   // POST /approvals/:id
+  edits?: ApprovalEdits;
+}
+
+/**
+ * The JSON object a POST carries, or why it isn't one. An empty body is an
+ * empty object: the routes below say which fields they're missing.
+ */
+async function readRequestBody(req: Request): Promise<RequestBody | string> {
+  if (req.method === "GET") return {};
+  
+  const text = await req.text();
+  if (!text.trim()) return {};
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (e) {
+    return `Request body is not valid JSON: ${e.message}`;
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) return "Request body must be a JSON object";
+  return body as RequestBody;
+}
+
+async function handleRequest(req: Request): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  
+  try {
+    if (new URL(req.url).pathname.endsWith("/webhooks/email")) {
+      return await handleEmailWebhook(req);
+    }
+    
+    const user = await authenticate(req);
+    if (!user) return jsonResponse({ error: "Unauthorized" }, 401);
+    
+    const url = new URL(req.url);
+    const approvalRoute = url.pathname.match(/\/approvals(?:\/([^/]+))?\/?$/);
+    const undoRoute = url.pathname.match(/\/leads\/([^/]+)\/undo\/?$/);
+    
+    const body = await readRequestBody(req);
+    if (typeof body === "string") return jsonResponse({ error: body }, 400);
+    const { message, action, actionId, conversationId, orgId, decision, edits } = body;
+    
+    const membership = await resolveMembership(user.userId, orgId ?? url.searchParams.get("orgId") ?? undefined);
+    if (!membership) {
+      return jsonResponse({ error: "Pass 'orgId' for an organization you belong to" }, 403);
+    }
+    const context: RequestContext = { ...user, ...membership };
+    
+    let run: () => Promise<AgentResponse>;
+    
+    if (undoRoute && req.method === "POST") {
+      run = () => undoLastChange(undoRoute[1]);
+    } else if (approvalRoute) {
+      const id = approvalRoute[1];
+      if (req.method === "GET" && !id) {
+        const filter = parseApprovalFilter(url.searchParams);
+        if (typeof filter === "string") return jsonResponse({ error: filter }, 400);
+        run = () => listApprovals(filter);
+      } else if (req.method === "GET") {
+        run = () => getApproval(id);
+      } else if (id && (decision === "approve" || decision === "reject")) {
+        run = () => resumeApproval(id, decision === "approve" ? "approved" : "rejected", edits);
+      } else if (id && decision === "cancel") {
+        run = () => cancelApproval(id);
+      } else {
+        return jsonResponse({ error: "POST /approvals/:id with 'decision': approve, reject or cancel" }, 400);
+      }
+    } else if (action === "approve" || action === "reject") {
+      if (!actionId) return jsonResponse({ error: "Missing 'actionId'" }, 400);
+      run = () => resumeApproval(actionId, action === "approve" ? "approved" : "rejected", edits);
+    } else if (action === "cancel") {
+      if (!actionId) return jsonResponse({ error: "Missing 'actionId'" }, 400);
+      run = () => cancelApproval(actionId);
+    } else if (message) {
+      run = () => runAgent(message, conversationId);
+    } else {
+      return jsonResponse({ error: "Missing 'message'" }, 400);
+    }
+    
+    return await requestContext.run(context, async () => {
+      await expireStaleApprovals().catch((e) => console.error(`[expireStaleApprovals] ${e.message}`));
+      if (wantsEventStream(req)) return eventStreamResponse(run);
+      return jsonResponse(await run());
+    });
+  } catch (e) {
+    console.error("Handler error:", e);
+    return jsonResponse({ error: "Internal error" }, 500);
+  }
+}
+
+// Only when this file is the function being served: the tests import it
+if (import.meta.main) serve(handleRequest);
+
+// ============================================
+// Exports
+// ============================================
+// What exercise-04-solution.test.ts and exercise-04-intent-eval.ts drive
+// the graph with
+
+export {
+  app,
+  createInitialState,
+  understandRequest,
+  routeByIntent,
+  routeAfterAction,
+  routeAfterReview,
+  useLlmClient,
+  createMemoryRepositories,
+  useRepositories,
+  createMemoryCheckpointer,
+  useCheckpointer,
+  useEmailTransport,
+  runAs,
+  runAgent,
+  resumeApproval,
+  handleEmailWebhook,
+  DEMO_ORG_ID,
+};
+
+export type {
+  AgentState,
+  AgentIntent,
+  Checkpointer,
+  MemoryRepositories,
+  OutgoingEmail,
+};
@@ -0,0 +1,163 @@
+/**
+ * Tests for llm-client.ts - the scripted client and the record/replay cache.
+ *
+ *   deno test --allow-env --allow-read --allow-write llm-client.test.ts
+ *
+ * Everything runs against scripted clients and a temporary cache directory,
+ * so nothing here calls a model.
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createCachedLlmClient, createLlmClient, createScriptedClient } from "./llm-client.ts";
+import type { LlmCacheEntry, LlmRequest, ScriptedReply } from "./llm-client.ts";
+
+const HELLO: LlmRequest = { maxTokens: 16, messages: [{ role: "user", content: "Say hello" }] };
+
+// Runs `fn` with a fresh cache directory and the given environment, then
+// puts both back
+async function withCache(env: Record<string, string>, fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  const previous = Object.fromEntries(Object.keys(env).map((name) => [name, Deno.env.get(name)]));
+  for (const [name, value] of Object.entries(env)) Deno.env.set(name, value.replace("$DIR", dir));
+  try {
+    await fn(dir);
+  } finally {
+    for (const [name, value] of Object.entries(previous)) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+// ============================================
+// Scripted client
+// ============================================
+
+Deno.test("the first matching reply wins, and tool replies only answer requests offering the tool", async () => {
+  const model = createScriptedClient([
+    { match: "weather", tool: "get_weather", toolCall: { name: "get_weather", input: { city: "Paris" } } },
+    { match: /weather/, text: "Sunny" },
+    { match: "weather", text: "Never reached" },
+  ]);
+  const ask = { maxTokens: 16, messages: [{ role: "user" as const, content: "What's the weather in Paris?" }] };
+  const tool = { name: "get_weather", description: "Current weather", input_schema: { type: "object" } };
+  
+  assertEquals(await model.complete(ask), { text: "Sunny", toolCall: null });
+  assertEquals(await model.complete({ ...ask, tools: [tool] }), {
+    text: "",
+    toolCall: { name: "get_weather", input: { city: "Paris" } },
+  });
+  assertEquals(model.calls.length, 2);
+});
+
+Deno.test("a prompt nothing in the script matches is an error", async () => {
+  await assertRejects(() => createScriptedClient([]).complete(HELLO), Error, "No scripted reply matches: Say hello");
+});
+
+// ============================================
+// Record/replay cache
+// ============================================
+
+Deno.test("recorded replies are replayed without calling the model", async () => {
+  await withCache({}, async (dir) => {
+    const model = createScriptedClient([{ match: "Say hello", text: "Hello there" }]);
+    
+    const recorded = await createCachedLlmClient(model, "record", dir).complete(HELLO);
+    assertEquals(recorded.text, "Hello there");
+    
+    const tokens: string[] = [];
+    const replayed = await createCachedLlmClient(model, "replay", dir).complete({
+      ...HELLO,
+      onToken: (text) => tokens.push(text),
+    });
+    assertEquals(replayed, recorded);
+    assertEquals(tokens, ["Hello ", "there"]);
+    assertEquals(model.calls.length, 1);
+  });
+});
+
+Deno.test("a recording holds the request, without the prompt in its file name", async () => {
+  await withCache({}, async (dir) => {
+    const model = createScriptedClient([{ match: "Say hello", text: "Hello there" }], "test-model");
+    await createCachedLlmClient(model, "record", dir).complete({ ...HELLO, system: "Be brief" });
+    
+    const [file] = [...Deno.readDirSync(dir)];
+    const entry: LlmCacheEntry = JSON.parse(await Deno.readTextFile(`${dir}/${file.name}`));
+    assertEquals(file.name, `${entry.key}.json`);
+    assertEquals(entry.request.provider, "scripted");
+    assertEquals(entry.request.model, "test-model");
+    assertEquals(entry.request.system, "Be brief");
+    assertEquals(entry.response, { text: "Hello there", toolCall: null });
+  });
+});
+
+Deno.test("any parameter that could change the reply misses the recording", async () => {
+  await withCache({}, async (dir) => {
+    const script: ScriptedReply[] = [{ match: "Say hello", text: "Hello there" }];
+    await createCachedLlmClient(createScriptedClient(script), "record", dir).complete(HELLO);
+    
+    const replay = createCachedLlmClient(createScriptedClient(script), "replay", dir);
+    const changed: Partial<LlmRequest>[] = [
+      { maxTokens: 32 },
+      { system: "Be brief" },
+      { temperature: 0 },
+      { messages: [{ role: "user", content: "Say hello!" }] },
+      { toolChoice: "any" },
+    ];
+    for (const change of changed) {
+      await assertRejects(() => replay.complete({ ...HELLO, ...change }), Error, "No recorded");
+    }
+    
+    // Another model's recording isn't this one's either
+    const other = createCachedLlmClient(createScriptedClient(script, "other-model"), "replay", dir);
+    await assertRejects(() => other.complete(HELLO), Error, "No recorded scripted/other-model reply");
+  });
+});
+
+Deno.test("a replay miss says which file is missing and isn't worth retrying", async () => {
+  await withCache({}, async (dir) => {
+    const replay = createCachedLlmClient(createScriptedClient([]), "replay", dir);
+    
+    const error = await assertRejects(() => replay.complete(HELLO), Error, `${dir}/`);
+    assertEquals((error as Error & { retryable?: boolean }).retryable, false);
+    assertEquals(error.message.includes("Say hello"), false);
+  });
+});
+
+// ============================================
+// createLlmClient
+// ============================================
+
+Deno.test("LLM_CACHE wraps whichever provider LLM_PROVIDER picks", async () => {
+  await withCache({
+    LLM_PROVIDER: "scripted",
+    LLM_SCRIPT_FILE: "$DIR/script.json",
+    LLM_CACHE_DIR: "$DIR/cache",
+    LLM_CACHE: "record",
+  }, async (dir) => {
+    await Deno.writeTextFile(`${dir}/script.json`, JSON.stringify([{ match: "Say hello", text: "Hello there" }]));
+    assertEquals((await createLlmClient().complete(HELLO)).text, "Hello there");
+    
+    // The script is gone, so only the recording can answer now
+    await Deno.writeTextFile(`${dir}/script.json`, "[]");
+    Deno.env.set("LLM_CACHE", "replay");
+    const replay = createLlmClient();
+    assertEquals(replay.name, "scripted");
+    assertEquals((await replay.complete(HELLO)).text, "Hello there");
+    
+    Deno.env.set("LLM_CACHE", "off");
+    await assertRejects(() => createLlmClient().complete(HELLO), Error, "No scripted reply matches");
+  });
+});
+
+Deno.test("an unknown LLM_CACHE or LLM_PROVIDER is refused up front", async () => {
+  await withCache({ LLM_PROVIDER: "scripted", LLM_SCRIPT_FILE: "$DIR/script.json", LLM_CACHE: "sometimes" }, async (dir) => {
+    await Deno.writeTextFile(`${dir}/script.json`, "[]");
+    assertThrows(() => createLlmClient(), Error, `Unknown LLM_CACHE "sometimes" (expected off, record or replay)`);
+    
+    Deno.env.set("LLM_CACHE", "off");
+    Deno.env.set("LLM_PROVIDER", "gemini");
+    assertThrows(() => createLlmClient(), Error, `Unknown LLM_PROVIDER "gemini" (expected anthropic, openai or scripted)`);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * LLM client shared by the exercise solutions
+ *
+ * The solutions talk to the model through LlmClient instead of creating an
+ * Anthropic client themselves, so the same graph can run against Claude, an
+ * OpenAI-compatible API or a script of canned replies. Pick one with
+ * LLM_PROVIDER (see .env.example):
+ * - "anthropic": Claude, model from ANTHROPIC_MODEL
+ * - "openai":    any OpenAI-compatible chat completions API (OpenAI, Azure,
+ *                Ollama, vLLM...) at OPENAI_BASE_URL, model from OPENAI_MODEL
+ * - "scripted":  canned replies from LLM_SCRIPT_FILE, no network at all (the
+ *                tests build one with createScriptedClient() instead)
+ *
+ * Any of them can be wrapped in a cache with LLM_CACHE: "record" saves every
+ * request and response under LLM_CACHE_DIR, "replay" answers from there
+ * without calling the model, so tests and evals get the same replies each run.
+ *
+ * When you deploy an Edge Function that uses it, copy this file next to the
+ * function's index.ts and import it from there.
+ */
+
+import Anthropic from "https://esm.sh/@anthropic-ai/sdk@0.24.3";
+
+interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+interface LlmTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+interface LlmRequest {
+  messages: LlmMessage[];
+  maxTokens: number;
+  system?: string;
+  temperature?: number;
+  tools?: LlmTool[];
+  toolChoice?: "any" | { name: string };   // Force a call to some/this tool
+  onToken?: (text: string) => void;        // Stream text as it's generated
+}
+
+interface LlmResponse {
+  text: string;
+  toolCall: { name: string; input: unknown } | null;
+}
+
+interface LlmClient {
+  name: string;
+  model: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+const DEFAULT_ANTHROPIC_MODEL = "claude-3-5-sonnet-20241022";
+
+function createAnthropicClient(apiKey: string | undefined, model: string): LlmClient {
+  // Created on first use: the SDK refuses to start without a key, and a
+  // scripted or replayed run never needs one
+  let sdk: Anthropic | null = null;
+  const anthropic = () => (sdk ??= new Anthropic({ apiKey }));
+  
+  return {
+    name: "anthropic",
+    model,
+    async complete(request) {
+      const params: Anthropic.MessageCreateParamsNonStreaming = {
+        model,
+        max_tokens: request.maxTokens,
+        messages: request.messages,
+        ...(request.system ? { system: request.system } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.tools ? { tools: request.tools as Anthropic.Tool[] } : {}),
+        ...(request.toolChoice === "any" ? { tool_choice: { type: "any" as const } } : {}),
+        ...(typeof request.toolChoice === "object"
+          ? { tool_choice: { type: "tool" as const, name: request.toolChoice.name } }
+          : {}),
+      };
+      
+      let message: Anthropic.Message;
+      if (request.onToken) {
+        const stream = anthropic().messages.stream(params);
+        stream.on("text", request.onToken);
+        message = await stream.finalMessage();
+      } else {
+        message = await anthropic().messages.create(params);
+      }
+      
+      let text = "";
+      let toolCall: LlmResponse["toolCall"] = null;
+      for (const block of message.content) {
+        if (block.type === "text") text += block.text;
+        else if (block.type === "tool_use" && !toolCall) toolCall = { name: block.name, input: block.input };
+      }
+      return { text, toolCall };
+    },
+  };
+}
+
+// Tool calls aren't streamed; onToken only sees plain text replies
+function createOpenAiCompatibleClient(config: { baseUrl: string; apiKey?: string; model: string }): LlmClient {
+  return {
+    name: "openai",
+    model: config.model,
+    async complete(request) {
+      const messages = request.system
+        ? [{ role: "system", content: request.system }, ...request.messages]
+        : request.messages;
+      const body: Record<string, unknown> = { model: config.model, max_tokens: request.maxTokens, messages };
+      if (request.temperature !== undefined) body.temperature = request.temperature;
+      if (request.tools) {
+        body.tools = request.tools.map((tool) => ({
+          type: "function",
+          function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+        }));
+        if (request.toolChoice === "any") body.tool_choice = "required";
+        else if (request.toolChoice) body.tool_choice = { type: "function", function: { name: request.toolChoice.name } };
+      }
+      if (request.onToken) body.stream = true;
+      
+      const res = await fetch(`${config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error(`LLM API error ${res.status}: ${await res.text()}`);
+      
+      if (!request.onToken) {
+        const message = (await res.json()).choices?.[0]?.message;
+        const call = message?.tool_calls?.[0]?.function;
+        return {
+          text: message?.content ?? "",
+          toolCall: call ? { name: call.name, input: JSON.parse(call.arguments || "{}") } : null,
+        };
+      }
+      
+      // Streamed replies arrive as "data: {...}" lines, ending with "data: [DONE]"
+      let text = "";
+      let buffer = "";
+      const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, "").trim();
+          if (!line.startsWith("data:") || payload === "[DONE]") continue;
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            request.onToken(delta);
+          }
+        }
+      }
+      return { text, toolCall: null };
+    },
+  };
+}
+
+interface ScriptedReply {
+  match: RegExp | string;             // Tested against the last message (strings: substring)
+  tool?: string;                      // Only for requests that offer this tool
+  text?: string;
+  toolCall?: { name: string; input: unknown };
+}
+
+/**
+ * A stand-in model that answers from a script: the first reply whose
+ * pattern matches the prompt wins, and a prompt nothing matches is an error
+ * rather than a made-up answer. Every request is kept in `calls` so tests
+ * can check what was asked.
+ */
+function createScriptedClient(script: ScriptedReply[], model = "scripted"): LlmClient & { calls: LlmRequest[] } {
+  const calls: LlmRequest[] = [];
+  
+  return {
+    name: "scripted",
+    model,
+    calls,
+    async complete(request) {
+      calls.push(request);
+      const prompt = request.messages[request.messages.length - 1]?.content ?? "";
+      
+      const reply = script.find((r) =>
+        (!r.tool || request.tools?.some((t) => t.name === r.tool)) &&
+        (typeof r.match === "string" ? prompt.includes(r.match) : r.match.test(prompt))
+      );
+      if (!reply) throw new Error(`No scripted reply matches: ${prompt.slice(0, 200)}`);
+      
+      const text = reply.text ?? "";
+      if (request.onToken) streamWords(text, request.onToken);
+      return { text, toolCall: reply.toolCall ?? null };
+    },
+  };
+}
+
+// Replies that didn't come from a live stream still reach onToken word by word
+function streamWords(text: string, onToken: (text: string) => void): void {
+  text.split(/(?<=\s)/).forEach((word) => onToken(word));
+}
+
+type LlmCacheMode = "record" | "replay";
+
+interface LlmCacheEntry {
+  key: string;
+  request: Omit<LlmRequest, "onToken"> & { provider: string; model: string };
+  response: LlmResponse;
+  recordedAt: string;
+}
+
+// Everything that can change the reply. onToken only changes how it arrives.
+async function llmCacheKey(client: LlmClient, request: LlmRequest): Promise<LlmCacheEntry["request"] & { key: string }> {
+  const keyed = {
+    provider: client.name,
+    model: client.model,
+    messages: request.messages,
+    maxTokens: request.maxTokens,
+    system: request.system,
+    temperature: request.temperature,
+    tools: request.tools,
+    toolChoice: request.toolChoice,
+  };
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(keyed)));
+  const key = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+  return { ...keyed, key };
+}
+
+/**
+ * Wrap a client so its calls are saved to (record) or served from (replay)
+ * one JSON file per request in `dir`. A replay with no recording throws an
+ * error withRetry won't retry - a missing reply must fail the run, not turn
+ * into a made-up one or a silent fallback.
+ */
+function createCachedLlmClient(client: LlmClient, mode: LlmCacheMode, dir: string): LlmClient {
+  return {
+    name: client.name,
+    model: client.model,
+    async complete(request) {
+      const { key, ...keyed } = await llmCacheKey(client, request);
+      const file = `${dir}/${key}.json`;
+      
+      if (mode === "replay") {
+        let entry: LlmCacheEntry;
+        try {
+          entry = JSON.parse(await Deno.readTextFile(file));
+        } catch (e) {
+          if (!(e instanceof Deno.errors.NotFound)) throw e;
+          // The prompt stays out of the message: it can hold lead data
+          throw Object.assign(
+            new Error(`No recorded ${client.name}/${client.model} reply for this request: ${file} is missing. Run with LLM_CACHE=record to record it.`),
+            { retryable: false }
+          );
+        }
+        if (request.onToken) streamWords(entry.response.text, request.onToken);
+        return entry.response;
+      }
+      
+      const response = await client.complete(request);
+      const entry: LlmCacheEntry = { key, request: keyed, response, recordedAt: new Date().toISOString() };
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(file, JSON.stringify(entry, null, 2) + "\n");
+      return response;
+    },
+  };
+}
+
+function createLlmClient(): LlmClient {
+  const client = createProviderClient();
+  const cache = Deno.env.get("LLM_CACHE") || "off";
+  switch (cache) {
+    case "off":
+      return client;
+    case "record":
+    case "replay":
+      return createCachedLlmClient(client, cache, Deno.env.get("LLM_CACHE_DIR") || "./llm-cache");
+    default:
+      throw new Error(`Unknown LLM_CACHE "${cache}" (expected off, record or replay)`);
+  }
+}
+
+function createProviderClient(): LlmClient {
+  const provider = Deno.env.get("LLM_PROVIDER") || "anthropic";
+  switch (provider) {
+    case "anthropic":
+      return createAnthropicClient(
+        Deno.env.get("ANTHROPIC_API_KEY"),
+        Deno.env.get("ANTHROPIC_MODEL") || DEFAULT_ANTHROPIC_MODEL
+      );
+    case "openai":
+      return createOpenAiCompatibleClient({
+        baseUrl: Deno.env.get("OPENAI_BASE_URL") || "https://api.openai.com/v1",
+        apiKey: Deno.env.get("OPENAI_API_KEY"),
+        model: Deno.env.get("OPENAI_MODEL") || "gpt-4o-mini",
+      });
+    case "scripted": {
+      const file = Deno.env.get("LLM_SCRIPT_FILE");
+      if (!file) throw new Error("LLM_PROVIDER=scripted needs LLM_SCRIPT_FILE");
+      return createScriptedClient(JSON.parse(Deno.readTextFileSync(file)));
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}" (expected anthropic, openai or scripted)`);
+  }
+}
+
+export {
+  createAnthropicClient,
+  createCachedLlmClient,
+  createLlmClient,
+  createOpenAiCompatibleClient,
+  createScriptedClient,
+};
+export type { LlmCacheEntry, LlmCacheMode, LlmClient, LlmMessage, LlmRequest, LlmResponse, LlmTool, ScriptedReply };
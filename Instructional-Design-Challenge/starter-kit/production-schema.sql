@@ -0,0 +1,494 @@
+-- ============================================
+-- CRM Agent Production Schema (Day 2)
+-- ============================================
+-- Extra tables the deployed agent (Day 2, Exercise 4) needs on top of
+-- supabase-schema.sql. Run that file first, then this one, in the
+-- Supabase SQL Editor (Database > SQL Editor).
+-- Like leads and interactions, every table here belongs to an organization
+-- and logged-in users only see their own organizations' rows.
+
+-- ============================================
+-- STEP 1: Pending actions
+-- ============================================
+-- When the agent wants to do something that needs a human's OK (send an
+-- email, update a high-value lead), it stores the proposed action here and
+-- stops. The approve/reject endpoint loads it back and finishes the job.
+
+CREATE TABLE IF NOT EXISTS pending_actions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    lead_id UUID REFERENCES leads(id) ON DELETE CASCADE,
+    thread_id TEXT,                 -- The agent run to resume (see STEP 2)
+    requested_by UUID REFERENCES auth.users(id),
+
+    -- What the agent wants to do
+    action_type TEXT NOT NULL CHECK (action_type IN ('update_lead', 'send_email')),
+    action JSONB NOT NULL,          -- The serialized PendingAction
+    lead_snapshot JSONB,            -- The lead as the agent saw it
+    user_message TEXT,              -- The request that triggered it
+
+    -- Who may decide (see STEP 6 and 7)
+    policy JSONB,                   -- The approval policy decision
+    approver_roles TEXT[],          -- Roles that may give the current sign-off
+    current_step INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMPTZ,
+
+    -- Review outcome
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled', 'expired')),
+    decided_at TIMESTAMPTZ,
+    decided_by TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS pending_actions_status_idx ON pending_actions (status, created_at);
+CREATE INDEX IF NOT EXISTS pending_actions_org_idx ON pending_actions (org_id, status);
+CREATE INDEX IF NOT EXISTS pending_actions_expiry_idx ON pending_actions (expires_at) WHERE status = 'pending';
+
+ALTER TABLE pending_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization's pending actions"
+    ON pending_actions FOR SELECT
+    TO authenticated
+    USING (is_org_member(org_id));
+
+CREATE POLICY "Service role has full access to pending actions"
+    ON pending_actions FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- ============================================
+-- STEP 2: Agent checkpoints
+-- ============================================
+-- Every request to the Edge Function is a fresh graph run. We save the
+-- agent's state at the end of each run, keyed by thread_id, so a run that
+-- paused at human_review can pick up exactly where it left off.
+
+CREATE TABLE IF NOT EXISTS agent_checkpoints (
+    thread_id TEXT PRIMARY KEY,
+    state JSONB NOT NULL,           -- The full AgentState
+    next_node TEXT,                 -- Node to resume at, NULL if the run finished
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE agent_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to agent checkpoints"
+    ON agent_checkpoints FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- ============================================
+-- STEP 3: Conversations and messages
+-- ============================================
+-- One row per chat in the UI, plus every message in it. The agent reads the
+-- last few messages so "mark them as won" knows who "them" is.
+-- A conversation's id is also its thread_id in agent_checkpoints.
+
+CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+    -- Sequential so a user message and its reply (inserted together, same
+    -- created_at) still come back in order
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    conversation_id TEXT REFERENCES conversations(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS messages_conversation_idx ON messages (conversation_id, id);
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+-- Users can read back their own chats (e.g. to show history in the UI)
+CREATE POLICY "Users can read their own conversations"
+    ON conversations FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid() AND is_org_member(org_id));
+
+CREATE POLICY "Users can read messages in their own conversations"
+    ON messages FOR SELECT
+    TO authenticated
+    USING (conversation_id IN (
+        SELECT id FROM conversations WHERE user_id = auth.uid() AND is_org_member(org_id)
+    ));
+
+CREATE POLICY "Service role has full access to conversations"
+    ON conversations FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to messages"
+    ON messages FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- ============================================
+-- STEP 4: Email templates
+-- ============================================
+-- Reusable emails the agent can send ("send the post-demo template to
+-- Sophie"). Placeholders: {{contact_name}}, {{company_name}},
+-- {{estimated_value}}, {{signature}}.
+-- default_for lists the lead statuses a template is the default for; the
+-- agent falls back to it when it can't draft a personalised email.
+-- Templates with no org_id are shared defaults every organization can use.
+
+CREATE TABLE IF NOT EXISTS email_templates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    slug TEXT NOT NULL,             -- What users call it: 'post_demo'
+    name TEXT NOT NULL,             -- What the UI shows: 'Post-demo follow-up'
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    default_for TEXT[] DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER email_templates_updated_at
+    BEFORE UPDATE ON email_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+-- Slugs only need to be unique within an organization, so a team can
+-- override a default template by reusing its slug
+CREATE UNIQUE INDEX IF NOT EXISTS email_templates_org_slug_idx
+    ON email_templates (COALESCE(org_id, '00000000-0000-0000-0000-000000000000'), slug);
+
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read shared and their organization's templates"
+    ON email_templates FOR SELECT
+    TO authenticated
+    USING (org_id IS NULL OR is_org_member(org_id));
+
+CREATE POLICY "Members can manage their organization's templates"
+    ON email_templates FOR ALL
+    TO authenticated
+    USING (is_org_member(org_id))
+    WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Service role has full access to email templates"
+    ON email_templates FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+INSERT INTO email_templates (slug, name, subject, body, default_for) VALUES
+    ('intro', 'Introduction',
+     'Quick intro - {{company_name}}',
+     E'Hi {{contact_name}},\n\nThanks for your interest! I''d love to learn more about what {{company_name}} is working on and see whether we can help.\n\nWould you have 20 minutes for a call this week?\n\n{{signature}}',
+     '{new,contacted}'),
+    ('post_demo', 'Post-demo follow-up',
+     'Following up on our demo',
+     E'Hi {{contact_name}},\n\nThanks again for taking the time to see the demo. Any questions from the {{company_name}} team so far?\n\nHappy to set up a trial or a deeper dive on anything you saw.\n\n{{signature}}',
+     '{qualified}'),
+    ('proposal_nudge', 'Proposal nudge',
+     'Your proposal - {{company_name}}',
+     E'Hi {{contact_name}},\n\nJust checking in on the proposal we sent over ({{estimated_value}}). Is there anything you need from us to move forward?\n\n{{signature}}',
+     '{proposal}'),
+    ('win_back', 'Win-back',
+     'Still thinking about it, {{contact_name}}?',
+     E'Hi {{contact_name}},\n\nIt''s been a while since we last spoke. A lot has changed on our side, and I think it might be a better fit for {{company_name}} now.\n\nOpen to a quick catch-up?\n\n{{signature}}',
+     '{lost}')
+ON CONFLICT DO NOTHING;
+
+-- ============================================
+-- STEP 5: Email events as interactions
+-- ============================================
+-- Delivery, open, bounce and spam events from the email provider's webhook,
+-- plus replies from leads, are logged as interactions too.
+-- The Edge Function verifies the caller's Supabase login, so
+-- interactions.performed_by / approved_by hold auth user ids
+-- (metadata->>'actor' says whether the agent or the human did it).
+
+-- Replaces the interaction types from supabase-schema.sql. change_reverted
+-- is for undone lead changes (see STEP 8).
+ALTER TABLE interactions DROP CONSTRAINT IF EXISTS interactions_interaction_type_check;
+ALTER TABLE interactions ADD CONSTRAINT interactions_interaction_type_check
+    CHECK (interaction_type IN (
+        'email_sent', 'status_change', 'note_added', 'agent_action', 'human_approval',
+        'email_delivered', 'email_opened', 'email_bounced', 'email_complained', 'email_received',
+        'change_reverted'
+    ));
+
+-- Set when an email to the lead bounces or is marked as spam; the agent
+-- won't send follow-ups to a flagged address. A reply clears it.
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS email_status TEXT
+    CHECK (email_status IN ('bounced', 'complained'));
+
+-- The webhook looks up sent emails by Message-ID header (replies) and by
+-- the provider's id for the email (delivery events)
+CREATE INDEX IF NOT EXISTS interactions_message_id_idx ON interactions ((metadata->>'message_id'));
+CREATE INDEX IF NOT EXISTS interactions_provider_id_idx ON interactions ((metadata->>'provider_id'));
+CREATE INDEX IF NOT EXISTS interactions_webhook_id_idx ON interactions ((metadata->>'webhook_id'));
+
+-- ============================================
+-- STEP 6: Approval policies
+-- ============================================
+-- Which agent actions need a human's OK, and whose. Rules are checked in
+-- priority order (lowest first) and the first match decides; if nothing
+-- matches, the agent acts on its own. An organization with no rules gets
+-- the built-in defaults: every email, and any change to a lead scoring
+-- over HIGH_VALUE_THRESHOLD, needs approval from anyone on the team.
+
+CREATE TABLE IF NOT EXISTS approval_policies (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,             -- Shown to users: 'Deals over $100k'
+    priority INTEGER NOT NULL DEFAULT 100,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+
+    -- Conditions (NULL = don't care). All set conditions must hold.
+    action_type TEXT CHECK (action_type IN ('update_lead', 'send_email')),
+    score_above INTEGER,            -- Current or proposed score
+    value_above DECIMAL(12, 2),     -- Current or proposed estimated_value
+    from_status TEXT[],             -- Status changes from one of these...
+    to_status TEXT[],               -- ...and/or to one of these
+
+    -- Outcome
+    requires_approval BOOLEAN NOT NULL DEFAULT true,   -- false = explicitly allowed
+    approver_roles TEXT[] NOT NULL DEFAULT '{member,manager,owner}'
+        CHECK (approver_roles <@ '{member,manager,owner,finance}'),
+    approval_steps JSONB,           -- e.g. '[["manager"], ["finance"]]'; overrides approver_roles when set
+    ttl_hours NUMERIC,              -- Overrides APPROVAL_TTL_HOURS for actions this rule matches
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (org_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS approval_policies_org_idx ON approval_policies (org_id, priority);
+
+CREATE TRIGGER approval_policies_updated_at
+    BEFORE UPDATE ON approval_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE approval_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization's approval policies"
+    ON approval_policies FOR SELECT
+    TO authenticated
+    USING (is_org_member(org_id));
+
+CREATE POLICY "Owners can manage their organization's approval policies"
+    ON approval_policies FOR ALL
+    TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM memberships
+        WHERE memberships.org_id = approval_policies.org_id
+          AND memberships.user_id = auth.uid()
+          AND memberships.role = 'owner'
+    ))
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM memberships
+        WHERE memberships.org_id = approval_policies.org_id
+          AND memberships.user_id = auth.uid()
+          AND memberships.role = 'owner'
+    ));
+
+CREATE POLICY "Service role has full access to approval policies"
+    ON approval_policies FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- Example policy for the demo org
+INSERT INTO approval_policies
+    (org_id, name, priority, action_type, score_above, to_status, approver_roles)
+VALUES
+    ('00000000-0000-0000-0000-000000000001', 'Marking a lead as lost', 10,
+     'update_lead', NULL, '{lost}', '{manager,owner}'),
+    ('00000000-0000-0000-0000-000000000001', 'Changes to leads scoring over 80', 20,
+     'update_lead', 80, NULL, '{manager,owner}'),
+    ('00000000-0000-0000-0000-000000000001', 'Every email needs approval', 30,
+     'send_email', NULL, NULL, '{member,manager,owner}')
+ON CONFLICT (org_id, name) DO NOTHING;
+
+-- ============================================
+-- STEP 7: Approval chains and expiry
+-- ============================================
+-- A policy can ask for several sign-offs in order, e.g. a manager and then
+-- finance for deals over $100k. pending_actions.current_step says which one
+-- is next and approver_roles who may give it. Requests that nobody decides
+-- before expires_at are auto-rejected; the requester can also cancel.
+-- Finance sign-offs come from members with the 'finance' role.
+
+-- Every sign-off, rejection, cancellation and expiry, step by step
+CREATE TABLE IF NOT EXISTS approval_decisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    pending_action_id UUID NOT NULL REFERENCES pending_actions(id) ON DELETE CASCADE,
+    step INTEGER NOT NULL,
+    decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected', 'cancelled', 'expired')),
+    decided_by TEXT,                -- Auth user id, or 'system' for expiry
+    role TEXT,                      -- The decider's role at the time
+    decided_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS approval_decisions_action_idx ON approval_decisions (pending_action_id, step);
+
+ALTER TABLE approval_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization's approval decisions"
+    ON approval_decisions FOR SELECT
+    TO authenticated
+    USING (is_org_member(org_id));
+
+CREATE POLICY "Service role has full access to approval decisions"
+    ON approval_decisions FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- Example: big deals need a manager and then finance
+INSERT INTO approval_policies
+    (org_id, name, priority, action_type, value_above, approver_roles, approval_steps)
+VALUES
+    ('00000000-0000-0000-0000-000000000001', 'Deals over $100k', 5,
+     'update_lead', 100000, '{manager}', '[["manager", "owner"], ["finance"]]')
+ON CONFLICT (org_id, name) DO NOTHING;
+
+-- ============================================
+-- STEP 8: Undoable lead changes
+-- ============================================
+-- Lead updates now log metadata.before / metadata.after, and undoing one
+-- logs a 'change_reverted' interaction with metadata.reverts pointing at the
+-- interaction it undid (the type is allowed in STEP 5).
+
+-- "What was the last change to this lead?"
+CREATE INDEX IF NOT EXISTS interactions_lead_changes_idx
+    ON interactions (lead_id, created_at DESC)
+    WHERE metadata ? 'after';
+
+-- ============================================
+-- STEP 9: Lead status transitions
+-- ============================================
+-- Which status changes are allowed. Rows with org_id NULL are the shared
+-- pipeline; an organization that adds rows of its own uses only those.
+-- requires_approval = true marks moves the agent will only make with a
+-- manager's OK (reopening a closed deal). Anything not listed is refused,
+-- here by trigger and in the agent with a clear message.
+
+CREATE TABLE IF NOT EXISTS lead_status_transitions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    from_status TEXT NOT NULL CHECK (from_status IN ('new', 'contacted', 'qualified', 'proposal', 'won', 'lost')),
+    to_status TEXT NOT NULL CHECK (to_status IN ('new', 'contacted', 'qualified', 'proposal', 'won', 'lost')),
+    requires_approval BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS lead_status_transitions_unique_idx
+    ON lead_status_transitions (COALESCE(org_id, '00000000-0000-0000-0000-000000000000'), from_status, to_status);
+
+INSERT INTO lead_status_transitions (org_id, from_status, to_status, requires_approval) VALUES
+    (NULL, 'new', 'contacted', false),
+    (NULL, 'new', 'lost', false),
+    (NULL, 'contacted', 'qualified', false),
+    (NULL, 'contacted', 'lost', false),
+    (NULL, 'qualified', 'proposal', false),
+    (NULL, 'qualified', 'contacted', false),
+    (NULL, 'qualified', 'lost', false),
+    (NULL, 'proposal', 'won', false),
+    (NULL, 'proposal', 'lost', false),
+    (NULL, 'proposal', 'qualified', false),
+    -- Reopening closed deals
+    (NULL, 'won', 'proposal', true),
+    (NULL, 'lost', 'contacted', true)
+ON CONFLICT DO NOTHING;
+
+-- Undo puts back the status a logged change replaced, which can be a move
+-- the transitions only list forwards (new → contacted, undone). The agent
+-- asks a manager first, then makes the change through revert_lead_change(),
+-- the one place the trigger lets a lead step back along a listed move.
+
+CREATE OR REPLACE FUNCTION check_lead_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+    has_own_rules BOOLEAN;
+BEGIN
+    IF NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT EXISTS (SELECT 1 FROM lead_status_transitions WHERE org_id = NEW.org_id)
+        INTO has_own_rules;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM lead_status_transitions
+        WHERE from_status = OLD.status
+          AND to_status = NEW.status
+          AND (CASE WHEN has_own_rules THEN org_id = NEW.org_id ELSE org_id IS NULL END)
+    ) AND NOT (
+        COALESCE(current_setting('crm.reverting', true), '') = 'on'
+        AND EXISTS (
+            SELECT 1 FROM lead_status_transitions
+            WHERE from_status = NEW.status
+              AND to_status = OLD.status
+              AND (CASE WHEN has_own_rules THEN org_id = NEW.org_id ELSE org_id IS NULL END)
+        )
+    ) THEN
+        RAISE EXCEPTION 'Lead status cannot change from % to %', OLD.status, NEW.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER leads_status_transition
+    BEFORE UPDATE OF status ON leads
+    FOR EACH ROW
+    EXECUTE FUNCTION check_lead_status_transition();
+
+ALTER TABLE lead_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read shared and their organization's transitions"
+    ON lead_status_transitions FOR SELECT
+    TO authenticated
+    USING (org_id IS NULL OR is_org_member(org_id));
+
+CREATE POLICY "Service role has full access to lead status transitions"
+    ON lead_status_transitions FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- p_org_id NULL = whichever organization the lead is in
+CREATE OR REPLACE FUNCTION revert_lead_change(p_org_id UUID, p_lead_id UUID, p_changes JSONB)
+RETURNS VOID AS $$
+BEGIN
+    -- Local to this transaction, so it ends with the update below
+    PERFORM set_config('crm.reverting', 'on', true);
+
+    UPDATE leads SET
+        status = CASE WHEN p_changes ? 'status' THEN p_changes->>'status' ELSE status END,
+        score = CASE WHEN p_changes ? 'score' THEN (p_changes->>'score')::INTEGER ELSE score END,
+        estimated_value = CASE WHEN p_changes ? 'estimated_value'
+            THEN (p_changes->>'estimated_value')::DECIMAL ELSE estimated_value END,
+        notes = CASE WHEN p_changes ? 'notes' THEN p_changes->>'notes' ELSE notes END
+    WHERE id = p_lead_id
+      AND (p_org_id IS NULL OR org_id = p_org_id);
+
+    PERFORM set_config('crm.reverting', 'off', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the agent (service role) undoes changes; the approval happens there
+REVOKE EXECUTE ON FUNCTION revert_lead_change(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION revert_lead_change(UUID, UUID, JSONB) TO service_role;
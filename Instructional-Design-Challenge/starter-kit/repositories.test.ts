@@ -0,0 +1,127 @@
+/**
+ * Tests for repositories.ts
+ *
+ *   deno test --allow-env --allow-net repositories.test.ts
+ *
+ * The memory repositories are checked against the sample data; the Supabase
+ * ones against the requests they send, answered by a stand-in fetch.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createMemoryCrmRepositories, createSupabaseCrmRepositories, DEMO_ORG_ID } from "./repositories.ts";
+import { SAMPLE_LEADS } from "./sample-data.ts";
+
+const OTHER_ORG_ID = "00000000-0000-0000-0000-000000000002";
+
+// ============================================
+// In memory
+// ============================================
+
+Deno.test("the memory repositories start with the sample data in the demo organization", async () => {
+  const db = createMemoryCrmRepositories();
+  
+  assertEquals(db.leadRows.map((l) => l.company_name), SAMPLE_LEADS.map((l) => l.company_name));
+  assert(db.leadRows.every((l) => l.org_id === DEMO_ORG_ID));
+  
+  const techCorp = db.leadRows.find((l) => l.company_name === "TechCorp Solutions")!;
+  const history = await db.interactions.recent(techCorp, 10);
+  assertEquals(history.map((i) => i.interaction_type), ["status_change", "note_added"]);
+  assertEquals(history[0].metadata, { previous_status: "new", new_status: "qualified" });
+});
+
+Deno.test("list filters and sorts like the compiled query", async () => {
+  const db = createMemoryCrmRepositories();
+  const companies = async (filter: Parameters<typeof db.leads.list>[1]) =>
+    (await db.leads.list(null, filter)).map((l) => l.company_name);
+  
+  assertEquals(await companies({ score_min: 80 }), ["GlobalRetail Inc", "TechCorp Solutions"]);
+  assertEquals(await companies({ search: "techcorp" }), ["TechCorp Solutions"]);
+  assertEquals(await companies({ search: "sophie" }), ["TechCorp Solutions"]);
+  assertEquals(await companies({ status_in: ["qualified"], value_min: 50000 }), ["MegaBank Financial"]);
+  assertEquals(await companies({ sort_by: "estimated_value", sort_direction: "asc", limit: 2 }), ["LocalCafe", "StartupXYZ"]);
+  assertEquals(await companies({ search: "50%" }), []);
+});
+
+Deno.test("rows are copied in and out", async () => {
+  const db = createMemoryCrmRepositories();
+  const id = db.leadRows[0].id;
+  
+  const lead = (await db.leads.get(null, id))!;
+  lead.status = "lost";
+  assertEquals(db.leadRows[0].status, "qualified");
+  
+  await db.leads.update(null, id, { status: "proposal", score: 90 });
+  assertEquals((await db.leads.get(null, id))?.status, "proposal");
+  assertEquals(db.leadRows[0].score, 90);
+});
+
+Deno.test("an organization's leads are only visible to it, or to a null orgId", async () => {
+  const db = createMemoryCrmRepositories(OTHER_ORG_ID);
+  const id = db.leadRows[0].id;
+  
+  assertEquals(await db.leads.list(DEMO_ORG_ID, {}), []);
+  assertEquals(await db.leads.get(DEMO_ORG_ID, id), null);
+  await db.leads.update(DEMO_ORG_ID, id, { status: "lost" });
+  assertEquals(db.leadRows[0].status, "qualified");
+  
+  assertEquals((await db.leads.list(OTHER_ORG_ID, {})).length, 5);
+  assertEquals((await db.leads.list(null, {})).length, 5);
+});
+
+Deno.test("an interaction without an org_id gets its lead's, as the database trigger does", async () => {
+  const db = createMemoryCrmRepositories(OTHER_ORG_ID);
+  const lead = db.leadRows[1];
+  
+  await db.interactions.add({
+    org_id: null,
+    lead_id: lead.id,
+    interaction_type: "note_added",
+    description: "Asked for a discount",
+    performed_by: "agent",
+    metadata: {},
+  });
+  
+  const added = db.interactionRows.at(-1)!;
+  assertEquals(added.org_id, OTHER_ORG_ID);
+  assertEquals(added.required_approval, false);
+  assertEquals((await db.interactions.recent(lead, 1))[0].description, "Asked for a discount");
+});
+
+// ============================================
+// Supabase
+// ============================================
+
+Deno.test("the Supabase repositories read through read() and write through the write client", async () => {
+  const requests: { client: string; method: string; url: URL }[] = [];
+  const client = (name: string) =>
+    createClient("http://localhost:54321", "test-key", {
+      auth: { persistSession: false },
+      global: {
+        fetch: (input, init) => {
+          const request = new Request(input, init);
+          requests.push({ client: name, method: request.method, url: new URL(request.url) });
+          return Promise.resolve(Response.json([]));
+        },
+      },
+    });
+  const write = client("write");
+  const caller = client("caller");
+  const db = createSupabaseCrmRepositories(write, () => caller);
+  
+  await db.leads.list(DEMO_ORG_ID, { status_in: ["new", "qualified"], score_min: 50, limit: 5 });
+  await db.leads.update(DEMO_ORG_ID, "lead-1", { status: "won" });
+  
+  const [list, update] = requests;
+  assertEquals(list.client, "caller");
+  assertEquals(list.url.pathname, "/rest/v1/leads");
+  assertEquals(list.url.searchParams.get("org_id"), `eq.${DEMO_ORG_ID}`);
+  assertEquals(list.url.searchParams.get("status"), "in.(new,qualified)");
+  assertEquals(list.url.searchParams.get("score"), "gte.50");
+  assertEquals(list.url.searchParams.get("order"), "score.desc.nullslast");
+  assertEquals(list.url.searchParams.get("limit"), "5");
+  
+  assertEquals(update.client, "write");
+  assertEquals(update.method, "PATCH");
+  assertEquals(update.url.searchParams.get("id"), "eq.lead-1");
+});
@@ -0,0 +1,511 @@
+/**
+ * Lead and interaction repositories shared by the exercise solutions
+ *
+ * The solutions read and write leads and their interactions through
+ * CrmRepositories instead of calling supabase.from() themselves, so a graph
+ * can run against the real tables or against arrays:
+ * - createSupabaseCrmRepositories(): the leads and interactions tables
+ * - createMemoryCrmRepositories():   arrays seeded with the sample rows from
+ *                                    sample-data.ts, for tests and local runs
+ *
+ * Day 2's final agent builds its other repositories (approvals, templates,
+ * conversations) on top of these.
+ *
+ * When you deploy an Edge Function that uses it, copy this file and
+ * sample-data.ts next to the function's index.ts and import it from there.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEMO_ORG_ID, SAMPLE_INTERACTIONS, SAMPLE_LEADS } from "./sample-data.ts";
+
+// ============================================
+// Type Definitions
+// ============================================
+
+type LeadStatus = "new" | "contacted" | "qualified" | "proposal" | "won" | "lost";
+
+const LEAD_STATUSES: LeadStatus[] = ["new", "contacted", "qualified", "proposal", "won", "lost"];
+
+interface Lead {
+  id: string;
+  org_id: string;
+  company_name: string;
+  contact_name: string;
+  contact_email: string;
+  status: LeadStatus;
+  score: number;
+  source: string | null;
+  estimated_value: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  last_contacted_at: string | null;
+  email_status: "bounced" | "complained" | null;   // Set by the email webhook (production-schema.sql)
+}
+
+type InteractionType =
+  | "email_sent"
+  | "status_change"
+  | "note_added"
+  | "agent_action"
+  | "human_approval"
+  | "email_delivered"
+  | "email_opened"
+  | "email_bounced"
+  | "email_complained"
+  | "email_received"
+  | "change_reverted";
+
+interface Interaction {
+  id: string;
+  org_id: string;
+  lead_id: string;
+  interaction_type: InteractionType;
+  description: string;
+  performed_by: string;
+  required_approval: boolean;
+  approved: boolean | null;
+  approved_by: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+// An interaction as written: the database fills in the rest
+type NewInteraction = Omit<
+  Interaction,
+  "id" | "created_at" | "org_id" | "performed_by" | "required_approval" | "approved" | "approved_by"
+> & {
+  org_id: string | null;
+  performed_by: string | null;
+  required_approval?: boolean;
+  approved?: boolean | null;
+  approved_by?: string | null;
+};
+
+const SORTABLE_COLUMNS = ["score", "estimated_value", "created_at", "last_contacted_at", "company_name"] as const;
+type SortableColumn = typeof SORTABLE_COLUMNS[number];
+
+const DEFAULT_LOOKUP_LIMIT = 20;
+const MAX_LOOKUP_LIMIT = 100;
+
+// What the LLM can ask for when looking up leads. Every key maps to a fixed
+// column in compileLeadFilter(), so the model never writes raw SQL or picks
+// arbitrary columns.
+interface LeadFilter {
+  search?: string;                    // Company or contact name contains
+  status_in?: LeadStatus[];
+  status_not_in?: LeadStatus[];
+  score_min?: number;
+  score_max?: number;
+  value_min?: number;                 // estimated_value
+  value_max?: number;
+  source_in?: string[];
+  created_within_days?: number;
+  created_before_days?: number;       // Created more than N days ago
+  contacted_within_days?: number;
+  not_contacted_in_days?: number;     // Includes leads never contacted
+  sort_by?: SortableColumn;
+  sort_direction?: "asc" | "desc";
+  limit?: number;
+}
+
+// ============================================
+// Query Helpers
+// ============================================
+
+// What forOrg() needs from a query builder: filters return the builder.
+// A cast rather than a constraint on Query - checking Supabase's builder
+// types against one is too deep for the compiler.
+interface OrgFilterable<Query> {
+  eq(column: "org_id", value: string): Query;
+}
+
+// Limit a query to one organization's rows. RLS does this for a client
+// acting as the caller, but the service role bypasses RLS, so every
+// service-role query on org data goes through here too.
+function forOrg<Query>(query: Query, orgId: string | null): Query {
+  return orgId ? (query as OrgFilterable<Query>).eq("org_id", orgId) : query;
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Commas and parentheses are syntax inside .or(), so a search term loses them
+function cleanSearchTerm(term: string): string {
+  return term.replace(/[,()]/g, " ").trim();
+}
+
+// % and _ are wildcards in a LIKE pattern; escaped, "50%" or "acme_inc"
+// match literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * An .or() condition matching the term anywhere in any of the columns.
+ */
+function ilikeAny(columns: string[], term: string): string {
+  const pattern = escapeLike(cleanSearchTerm(term));
+  return columns.map((column) => `${column}.ilike.%${pattern}%`).join(",");
+}
+
+// What compileLeadFilter() needs from a leads query builder. Like
+// OrgFilterable, every filter returns the builder and the query is cast to
+// this rather than constrained by it.
+interface LeadFilterable<Query> {
+  or(filters: string): Query;
+  in(column: "status" | "source", values: readonly string[]): Query;
+  not(column: "status", operator: "in", value: string): Query;
+  gte(column: "score" | "estimated_value" | "created_at" | "last_contacted_at", value: number | string): Query;
+  lte(column: "score" | "estimated_value", value: number): Query;
+  lt(column: "created_at", value: string): Query;
+  order(column: SortableColumn, options: { ascending: boolean; nullsFirst: boolean }): Query;
+  limit(count: number): Query;
+}
+
+/**
+ * Apply a validated LeadFilter to a leads query.
+ */
+function compileLeadFilter<Query>(query: Query, filter: LeadFilter): Query {
+  const q = (current: Query) => current as LeadFilterable<Query>;
+  
+  if (filter.search) query = q(query).or(ilikeAny(["company_name", "contact_name"], filter.search));
+  if (filter.status_in?.length) query = q(query).in("status", filter.status_in);
+  if (filter.status_not_in?.length) query = q(query).not("status", "in", `(${filter.status_not_in.join(",")})`);
+  if (filter.score_min !== undefined) query = q(query).gte("score", filter.score_min);
+  if (filter.score_max !== undefined) query = q(query).lte("score", filter.score_max);
+  if (filter.value_min !== undefined) query = q(query).gte("estimated_value", filter.value_min);
+  if (filter.value_max !== undefined) query = q(query).lte("estimated_value", filter.value_max);
+  if (filter.source_in?.length) query = q(query).in("source", filter.source_in);
+  if (filter.created_within_days) query = q(query).gte("created_at", daysAgo(filter.created_within_days));
+  if (filter.created_before_days) query = q(query).lt("created_at", daysAgo(filter.created_before_days));
+  if (filter.contacted_within_days) query = q(query).gte("last_contacted_at", daysAgo(filter.contacted_within_days));
+  if (filter.not_contacted_in_days) {
+    const cutoff = daysAgo(filter.not_contacted_in_days);
+    query = q(query).or(`last_contacted_at.is.null,last_contacted_at.lt.${cutoff}`);
+  }
+  
+  const sortBy = filter.sort_by ?? "score";
+  const limit = Math.min(filter.limit ?? DEFAULT_LOOKUP_LIMIT, MAX_LOOKUP_LIMIT);
+  query = q(query).order(sortBy, { ascending: filter.sort_direction === "asc", nullsFirst: false });
+  return q(query).limit(limit);
+}
+
+// ============================================
+// Repositories
+// ============================================
+
+interface LeadRepository {
+  get(orgId: string | null, id: string): Promise<Lead | null>;
+  // Company, contact or email containing the term, by company name
+  search(orgId: string | null, term: string, limit: number): Promise<Lead[]>;
+  list(orgId: string | null, filter: LeadFilter): Promise<Lead[]>;
+  // Any organization - webhooks don't know which one yet. Null when leads
+  // in more than one organization have the address.
+  findByEmail(email: string): Promise<Lead | null>;
+  update(orgId: string | null, id: string, changes: Partial<Lead>): Promise<void>;
+  // update() for an undo: the status may step back along a move the
+  // transition rules only allow forwards
+  revert(orgId: string | null, id: string, changes: Partial<Lead>): Promise<void>;
+}
+
+interface InteractionRepository {
+  add(entry: NewInteraction): Promise<void>;
+  // Newest first
+  recent(lead: Lead, limit: number): Promise<Interaction[]>;
+  // Newest first, only the ones that recorded a change (metadata.after)
+  recentChanges(lead: Lead, limit: number): Promise<Interaction[]>;
+  // Any organization, e.g. the interaction holding a message id
+  findByMetadata(key: string, value: string, type?: InteractionType): Promise<Interaction | null>;
+}
+
+interface CrmRepositories {
+  leads: LeadRepository;
+  interactions: InteractionRepository;
+}
+
+// An address shared by leads in two organizations can't say whose event it
+// is, and logging it against the wrong one would leak it across orgs
+function soleOrganizationLead(leads: Lead[]): Lead | null {
+  if (new Set(leads.map((l) => l.org_id)).size > 1) return null;
+  return leads[0] ?? null;
+}
+
+/**
+ * Repositories over the Supabase tables. Writes go through `write`; reads
+ * through `read()`, e.g. a client acting as the caller so RLS applies.
+ */
+function createSupabaseCrmRepositories(
+  write: SupabaseClient,
+  read: () => SupabaseClient = () => write
+): CrmRepositories {
+  return {
+    leads: {
+      async get(orgId, id) {
+        const { data, error } = await forOrg(read().from("leads").select("*"), orgId).eq("id", id).maybeSingle();
+        if (error) throw error;
+        return data;
+      },
+      async search(orgId, term, limit) {
+        const { data, error } = await forOrg(read().from("leads").select("*"), orgId)
+          .or(ilikeAny(["company_name", "contact_name", "contact_email"], term))
+          .order("company_name")
+          .limit(limit);
+        if (error) throw error;
+        return data ?? [];
+      },
+      async list(orgId, filter) {
+        const { data, error } = await compileLeadFilter(forOrg(read().from("leads").select("*"), orgId), filter);
+        if (error) throw error;
+        return data ?? [];
+      },
+      async findByEmail(email) {
+        // Without wildcards, ilike is a case-insensitive equals
+        const { data, error } = await write
+          .from("leads")
+          .select("*")
+          .ilike("contact_email", escapeLike(email))
+          .order("created_at");
+        if (error) throw error;
+        return soleOrganizationLead(data ?? []);
+      },
+      async update(orgId, id, changes) {
+        const { error } = await forOrg(write.from("leads").update(changes), orgId).eq("id", id);
+        if (error) throw error;
+      },
+      async revert(orgId, id, changes) {
+        // The trigger only lets a backwards move through inside this function
+        const { error } = await write.rpc("revert_lead_change", { p_org_id: orgId, p_lead_id: id, p_changes: changes });
+        if (error) throw error;
+      },
+    },
+    
+    interactions: {
+      async add(entry) {
+        const { error } = await write.from("interactions").insert(entry);
+        if (error) throw error;
+      },
+      async recent(lead, limit) {
+        const { data, error } = await forOrg(read().from("interactions").select("*"), lead.org_id)
+          .eq("lead_id", lead.id)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+        if (error) throw error;
+        return data ?? [];
+      },
+      async recentChanges(lead, limit) {
+        const { data, error } = await forOrg(read().from("interactions").select("*"), lead.org_id)
+          .eq("lead_id", lead.id)
+          .not("metadata->after", "is", null)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+        if (error) throw error;
+        return data ?? [];
+      },
+      async findByMetadata(key, value, type) {
+        let query = write.from("interactions").select("*").eq(`metadata->>${key}`, value);
+        if (type) query = query.eq("interaction_type", type);
+        const { data, error } = await query.limit(1);
+        if (error) throw error;
+        return data?.[0] ?? null;
+      },
+    },
+  };
+}
+
+// ============================================
+// In Memory
+// ============================================
+
+interface MemoryCrmRepositories extends CrmRepositories {
+  // The stored rows, for tests to inspect or add to
+  leadRows: Lead[];
+  interactionRows: Interaction[];
+}
+
+function sampleLeads(orgId: string): Lead[] {
+  const now = new Date().toISOString();
+  return SAMPLE_LEADS.map((lead) => ({
+    ...lead,
+    id: crypto.randomUUID(),
+    org_id: orgId,
+    created_at: now,
+    updated_at: now,
+    last_contacted_at: null,
+    email_status: null,
+  }));
+}
+
+function sampleInteractions(leads: Lead[]): Interaction[] {
+  return SAMPLE_INTERACTIONS.map(({ company_name, ...interaction }) => {
+    const lead = leads.find((l) => l.company_name === company_name)!;
+    return {
+      ...interaction,
+      id: crypto.randomUUID(),
+      org_id: lead.org_id,
+      lead_id: lead.id,
+      required_approval: false,
+      approved: null,
+      approved_by: null,
+      created_at: lead.created_at,
+    };
+  });
+}
+
+// SQL's ilike without wildcards at either end, i.e. case-insensitive contains
+function containsText(value: string | null, term: string): boolean {
+  return (value ?? "").toLowerCase().includes(term.toLowerCase());
+}
+
+/**
+ * compileLeadFilter() for an array. A comparison against a null column is
+ * false, as in SQL.
+ */
+function matchesLeadFilter(lead: Lead, filter: LeadFilter): boolean {
+  const atLeast = <T extends number | string>(value: T | null, min: T) => value !== null && value >= min;
+  const atMost = <T extends number | string>(value: T | null, max: T) => value !== null && value <= max;
+  const below = <T extends number | string>(value: T | null, max: T) => value !== null && value < max;
+  
+  if (filter.search) {
+    const term = cleanSearchTerm(filter.search);
+    if (!containsText(lead.company_name, term) && !containsText(lead.contact_name, term)) return false;
+  }
+  if (filter.status_in?.length && !filter.status_in.includes(lead.status)) return false;
+  if (filter.status_not_in?.length && filter.status_not_in.includes(lead.status)) return false;
+  if (filter.score_min !== undefined && !atLeast(lead.score, filter.score_min)) return false;
+  if (filter.score_max !== undefined && !atMost(lead.score, filter.score_max)) return false;
+  if (filter.value_min !== undefined && !atLeast(lead.estimated_value, filter.value_min)) return false;
+  if (filter.value_max !== undefined && !atMost(lead.estimated_value, filter.value_max)) return false;
+  if (filter.source_in?.length && !(lead.source && filter.source_in.includes(lead.source))) return false;
+  if (filter.created_within_days && !atLeast(lead.created_at, daysAgo(filter.created_within_days))) return false;
+  if (filter.created_before_days && !below(lead.created_at, daysAgo(filter.created_before_days))) return false;
+  if (filter.contacted_within_days && !atLeast(lead.last_contacted_at, daysAgo(filter.contacted_within_days))) return false;
+  if (filter.not_contacted_in_days && lead.last_contacted_at !== null &&
+      !below(lead.last_contacted_at, daysAgo(filter.not_contacted_in_days))) return false;
+  return true;
+}
+
+// Sorts like .order(column, { nullsFirst: false }): nulls last either way
+function compareLeads(sortBy: SortableColumn, ascending: boolean) {
+  return (a: Lead, b: Lead) => {
+    const x = a[sortBy], y = b[sortBy];
+    if (x === null || y === null) return (x === null ? 1 : 0) - (y === null ? 1 : 0);
+    const order = typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y));
+    return ascending ? order : -order;
+  };
+}
+
+/**
+ * Repositories over plain arrays, starting with the sample data in `orgId`.
+ * Rows are copied in and out so callers can't change stored data by
+ * mutating what they got back - the same as going through the database.
+ */
+function createMemoryCrmRepositories(orgId: string = DEMO_ORG_ID): MemoryCrmRepositories {
+  const leadRows = sampleLeads(orgId);
+  const interactionRows = sampleInteractions(leadRows);
+  
+  const inOrg = (row: { org_id: string }, org: string | null) => !org || row.org_id === org;
+  // Rows are appended as they happen, so walking backwards is newest first
+  const newestFirst = (lead: Lead) =>
+    interactionRows.filter((i) => i.lead_id === lead.id && inOrg(i, lead.org_id)).reverse();
+  
+  return {
+    leadRows,
+    interactionRows,
+    
+    leads: {
+      async get(org, id) {
+        const lead = leadRows.find((l) => l.id === id && inOrg(l, org));
+        return lead ? structuredClone(lead) : null;
+      },
+      async search(org, term, limit) {
+        const clean = cleanSearchTerm(term);
+        return structuredClone(
+          leadRows
+            .filter((l) => inOrg(l, org))
+            .filter((l) => [l.company_name, l.contact_name, l.contact_email].some((name) => containsText(name, clean)))
+            .sort((a, b) => a.company_name.localeCompare(b.company_name))
+            .slice(0, limit)
+        );
+      },
+      async list(org, filter) {
+        const limit = Math.min(filter.limit ?? DEFAULT_LOOKUP_LIMIT, MAX_LOOKUP_LIMIT);
+        return structuredClone(
+          leadRows
+            .filter((l) => inOrg(l, org) && matchesLeadFilter(l, filter))
+            .sort(compareLeads(filter.sort_by ?? "score", filter.sort_direction === "asc"))
+            .slice(0, limit)
+        );
+      },
+      async findByEmail(email) {
+        const lead = soleOrganizationLead(leadRows.filter((l) => l.contact_email.toLowerCase() === email.toLowerCase()));
+        return lead ? structuredClone(lead) : null;
+      },
+      async update(org, id, changes) {
+        const lead = leadRows.find((l) => l.id === id && inOrg(l, org));
+        if (lead) Object.assign(lead, structuredClone(changes), { updated_at: new Date().toISOString() });
+      },
+      // No trigger here, so a revert is an ordinary update
+      async revert(org, id, changes) {
+        const lead = leadRows.find((l) => l.id === id && inOrg(l, org));
+        if (lead) Object.assign(lead, structuredClone(changes), { updated_at: new Date().toISOString() });
+      },
+    },
+    
+    interactions: {
+      async add(entry) {
+        interactionRows.push(structuredClone({
+          required_approval: false,
+          approved: null,
+          approved_by: null,
+          ...entry,
+          id: crypto.randomUUID(),
+          // The database trigger fills org_id from the lead when it's missing
+          org_id: entry.org_id ?? leadRows.find((l) => l.id === entry.lead_id)?.org_id ?? orgId,
+          performed_by: entry.performed_by!,
+          created_at: new Date().toISOString(),
+        }));
+      },
+      async recent(lead, limit) {
+        return structuredClone(newestFirst(lead).slice(0, limit));
+      },
+      async recentChanges(lead, limit) {
+        return structuredClone(newestFirst(lead).filter((i) => i.metadata.after != null).slice(0, limit));
+      },
+      async findByMetadata(key, value, type) {
+        const match = interactionRows.find((i) =>
+          String(i.metadata[key] ?? "") === value && (!type || i.interaction_type === type)
+        );
+        return match ? structuredClone(match) : null;
+      },
+    },
+  };
+}
+
+export {
+  LEAD_STATUSES,
+  SORTABLE_COLUMNS,
+  DEFAULT_LOOKUP_LIMIT,
+  MAX_LOOKUP_LIMIT,
+  DEMO_ORG_ID,
+  forOrg,
+  escapeLike,
+  ilikeAny,
+  createSupabaseCrmRepositories,
+  createMemoryCrmRepositories,
+};
+
+export type {
+  LeadStatus,
+  Lead,
+  InteractionType,
+  Interaction,
+  NewInteraction,
+  SortableColumn,
+  LeadFilter,
+  LeadRepository,
+  InteractionRepository,
+  CrmRepositories,
+  MemoryCrmRepositories,
+};
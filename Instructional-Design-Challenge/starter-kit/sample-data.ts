@@ -0,0 +1,45 @@
+/**
+ * The sample CRM data, for the in-memory repositories in repositories.ts
+ *
+ * The same rows supabase-schema.sql seeds the database with: five leads in
+ * the "Demo Sales Team" organization and two interactions on TechCorp. If
+ * you change one, change the other, so the tests and a fresh database agree.
+ */
+
+// The "Demo Sales Team" organization supabase-schema.sql puts the sample rows in
+const DEMO_ORG_ID = "00000000-0000-0000-0000-000000000001";
+
+interface SampleLead {
+  company_name: string;
+  contact_name: string;
+  contact_email: string;
+  status: "new" | "contacted" | "qualified" | "proposal" | "won" | "lost";
+  score: number;
+  source: string;
+  estimated_value: number;
+  notes: string;
+}
+
+interface SampleInteraction {
+  company_name: string;                 // The lead it belongs to
+  interaction_type: "note_added" | "status_change";
+  description: string;
+  performed_by: string;
+  metadata: Record<string, unknown>;
+}
+
+const SAMPLE_LEADS: SampleLead[] = [
+  { company_name: "TechCorp Solutions", contact_name: "Sophie Martin", contact_email: "sophie@techcorp.io", status: "qualified", score: 85, source: "website", estimated_value: 45000, notes: "Very interested in enterprise plan. Decision maker. Wants demo next week." },
+  { company_name: "StartupXYZ", contact_name: "Marcus Chen", contact_email: "marcus@startupxyz.com", status: "new", score: 40, source: "linkedin", estimated_value: 5000, notes: "Early stage startup, limited budget but growing fast." },
+  { company_name: "GlobalRetail Inc", contact_name: "Amanda Rodriguez", contact_email: "a.rodriguez@globalretail.com", status: "proposal", score: 92, source: "referral", estimated_value: 120000, notes: "Enterprise deal. Legal review in progress. HIGH PRIORITY." },
+  { company_name: "LocalCafe", contact_name: "Tom Wilson", contact_email: "tom@localcafe.co", status: "contacted", score: 25, source: "website", estimated_value: 500, notes: "Small business, might not be a fit for our pricing." },
+  { company_name: "MegaBank Financial", contact_name: "Dr. James Wright", contact_email: "jwright@megabank.com", status: "qualified", score: 78, source: "conference", estimated_value: 80000, notes: "Met at FinTech Summit. Interested but slow procurement process." },
+];
+
+const SAMPLE_INTERACTIONS: SampleInteraction[] = [
+  { company_name: "TechCorp Solutions", interaction_type: "note_added", description: "Initial contact made via website form", performed_by: "human", metadata: { channel: "website" } },
+  { company_name: "TechCorp Solutions", interaction_type: "status_change", description: "Status changed from new to qualified after discovery call", performed_by: "human", metadata: { previous_status: "new", new_status: "qualified" } },
+];
+
+export { DEMO_ORG_ID, SAMPLE_INTERACTIONS, SAMPLE_LEADS };
+export type { SampleInteraction, SampleLead };
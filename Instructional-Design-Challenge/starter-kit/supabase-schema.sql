@@ -5,7 +5,50 @@
 -- Run this in your Supabase SQL Editor (Database > SQL Editor)
 
 -- ============================================
--- STEP 1: Create the leads table
+-- STEP 1: Create organizations and memberships
+-- ============================================
+-- Each sales team is an organization. Leads and interactions belong to one,
+-- and users only see the organizations they are members of. The sample data
+-- goes into a "Demo Sales Team" org; add yourself to it with:
+--   INSERT INTO memberships (org_id, user_id, role)
+--   VALUES ('00000000-0000-0000-0000-000000000001', '<your auth user id>', 'owner');
+
+CREATE TABLE IF NOT EXISTS organizations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS memberships (
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'manager', 'owner', 'finance')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (org_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS memberships_user_idx ON memberships (user_id);
+
+-- SECURITY DEFINER so policies on memberships itself can call it without
+-- recursing into their own RLS check
+CREATE OR REPLACE FUNCTION is_org_member(org UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM memberships WHERE org_id = org AND user_id = auth.uid()
+    );
+$$;
+
+INSERT INTO organizations (id, name)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Demo Sales Team')
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- STEP 2: Create the leads table
 -- ============================================
 -- This is where all your potential customers live.
 -- The agent will read from here to answer questions like 
@@ -13,6 +56,7 @@
 
 CREATE TABLE IF NOT EXISTS leads (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
     
     -- Basic info
     company_name TEXT NOT NULL,
@@ -34,8 +78,10 @@ CREATE TABLE IF NOT EXISTS leads (
     last_contacted_at TIMESTAMPTZ
 );
 
+CREATE INDEX IF NOT EXISTS leads_org_idx ON leads (org_id);
+
 -- ============================================
--- STEP 2: Create the interactions table
+-- STEP 3: Create the interactions table
 -- ============================================
 -- Every time the agent does something (sends email, updates status),
 -- we log it here. This is your audit trail.
@@ -43,6 +89,7 @@ CREATE TABLE IF NOT EXISTS leads (
 CREATE TABLE IF NOT EXISTS interactions (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
     lead_id UUID REFERENCES leads(id) ON DELETE CASCADE,
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
     
     -- What happened
     interaction_type TEXT NOT NULL CHECK (interaction_type IN ('email_sent', 'status_change', 'note_added', 'agent_action', 'human_approval')),
@@ -62,8 +109,24 @@ CREATE TABLE IF NOT EXISTS interactions (
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE INDEX IF NOT EXISTS interactions_org_idx ON interactions (org_id, lead_id);
+
+-- An interaction always belongs to its lead's organization
+CREATE OR REPLACE FUNCTION set_interaction_org()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT org_id INTO NEW.org_id FROM leads WHERE id = NEW.lead_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER interactions_set_org
+    BEFORE INSERT ON interactions
+    FOR EACH ROW
+    EXECUTE FUNCTION set_interaction_org();
+
 -- ============================================
--- STEP 3: Auto-update timestamps
+-- STEP 4: Auto-update timestamps
 -- ============================================
 -- When you update a lead, we want updated_at to change automatically
 
@@ -81,27 +144,37 @@ CREATE TRIGGER leads_updated_at
     EXECUTE FUNCTION update_updated_at();
 
 -- ============================================
--- STEP 4: Row Level Security (RLS)
+-- STEP 5: Row Level Security (RLS)
 -- ============================================
--- In production, you'd lock this down properly.
--- For learning, we'll allow authenticated users full access.
+-- Logged-in users can only see and change the rows of the organizations
+-- they belong to.
 
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memberships ENABLE ROW LEVEL SECURITY;
 ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
 ALTER TABLE interactions ENABLE ROW LEVEL SECURITY;
 
--- Policy: Authenticated users can do everything
--- (In real apps, you'd scope this to user's organization)
-CREATE POLICY "Authenticated users can manage leads"
+CREATE POLICY "Members can read their organizations"
+    ON organizations FOR SELECT
+    TO authenticated
+    USING (is_org_member(id));
+
+CREATE POLICY "Members can see who else is in their organizations"
+    ON memberships FOR SELECT
+    TO authenticated
+    USING (is_org_member(org_id));
+
+CREATE POLICY "Members can manage their organization's leads"
     ON leads FOR ALL
     TO authenticated
-    USING (true)
-    WITH CHECK (true);
+    USING (is_org_member(org_id))
+    WITH CHECK (is_org_member(org_id));
 
-CREATE POLICY "Authenticated users can manage interactions"
+CREATE POLICY "Members can manage their organization's interactions"
     ON interactions FOR ALL
     TO authenticated
-    USING (true)
-    WITH CHECK (true);
+    USING (is_org_member(org_id))
+    WITH CHECK (is_org_member(org_id));
 
 -- Also allow service role (for Edge Functions)
 CREATE POLICY "Service role has full access to leads"
@@ -116,17 +189,33 @@ CREATE POLICY "Service role has full access to interactions"
     USING (true)
     WITH CHECK (true);
 
+CREATE POLICY "Service role has full access to organizations"
+    ON organizations FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to memberships"
+    ON memberships FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
 -- ============================================
--- STEP 5: Sample data
+-- STEP 6: Sample data
 -- ============================================
 -- Some leads to play with. These are the people your agent will help manage.
+-- starter-kit/sample-data.ts has the same rows for the in-memory tests, so
+-- change both together.
 
-INSERT INTO leads (company_name, contact_name, contact_email, status, score, source, estimated_value, notes) VALUES
+INSERT INTO leads (org_id, company_name, contact_name, contact_email, status, score, source, estimated_value, notes)
+SELECT '00000000-0000-0000-0000-000000000001'::UUID, * FROM (VALUES
     ('TechCorp Solutions', 'Sophie Martin', 'sophie@techcorp.io', 'qualified', 85, 'website', 45000.00, 'Very interested in enterprise plan. Decision maker. Wants demo next week.'),
     ('StartupXYZ', 'Marcus Chen', 'marcus@startupxyz.com', 'new', 40, 'linkedin', 5000.00, 'Early stage startup, limited budget but growing fast.'),
     ('GlobalRetail Inc', 'Amanda Rodriguez', 'a.rodriguez@globalretail.com', 'proposal', 92, 'referral', 120000.00, 'Enterprise deal. Legal review in progress. HIGH PRIORITY.'),
     ('LocalCafe', 'Tom Wilson', 'tom@localcafe.co', 'contacted', 25, 'website', 500.00, 'Small business, might not be a fit for our pricing.'),
-    ('MegaBank Financial', 'Dr. James Wright', 'jwright@megabank.com', 'qualified', 78, 'conference', 80000.00, 'Met at FinTech Summit. Interested but slow procurement process.');
+    ('MegaBank Financial', 'Dr. James Wright', 'jwright@megabank.com', 'qualified', 78, 'conference', 80000.00, 'Met at FinTech Summit. Interested but slow procurement process.')
+) AS sample (company_name, contact_name, contact_email, status, score, source, estimated_value, notes);
 
 -- Add some interaction history
 INSERT INTO interactions (lead_id, interaction_type, description, performed_by, metadata) 
@@ -154,6 +243,7 @@ FROM leads WHERE company_name = 'TechCorp Solutions';
 -- DONE! Your database is ready.
 -- ============================================
 -- You should see:
+-- - 1 organization, "Demo Sales Team"
 -- - 5 leads in the leads table
 -- - 2 interactions logged
 -- 